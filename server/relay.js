@@ -0,0 +1,189 @@
+// Relay server for collaborative editing: `npm run relay`, then start the
+// editor with VITE_SYNC_URL=ws://localhost:1234.
+//
+// Clients join a room with `?room=<name>`. Sync operations are kept per room
+// and replayed to everyone who joins later; any other message (e.g.
+// presence) is passed on to the rest of the room without being stored.
+// The WebSocket protocol is implemented by hand so the relay has no
+// dependencies beyond Node itself.
+
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const PORT = Number(process.env.PORT) || 1234;
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// name -> { clients: Set<Client>, log: SyncOp[] }
+const rooms = new Map();
+
+// --- 1. FRAMES ---
+
+function encodeFrame(payload, opcode = OPCODE_TEXT) {
+  const data = Buffer.from(payload);
+  let header;
+  if (data.length < 126) {
+    header = Buffer.from([0x80 | opcode, data.length]);
+  } else if (data.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+  return Buffer.concat([header, data]);
+}
+
+// Returns a `data` handler that reassembles (possibly fragmented) client
+// frames and reports complete text messages.
+function createFrameReader({ onMessage, onClose, onPing }) {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      }
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode === OPCODE_CLOSE) {
+        onClose();
+        return;
+      }
+      if (opcode === OPCODE_PING) {
+        onPing(payload);
+        continue;
+      }
+      if (opcode === OPCODE_PONG) continue;
+
+      fragments.push(payload);
+      if (fin) {
+        onMessage(Buffer.concat(fragments).toString("utf8"));
+        fragments = [];
+      }
+    }
+  };
+}
+
+// --- 2. ROOMS ---
+
+function joinRoom(name, socket) {
+  if (!rooms.has(name)) rooms.set(name, { clients: new Set(), log: [] });
+  const room = rooms.get(name);
+  const client = {
+    send: (message) => socket.write(encodeFrame(JSON.stringify(message))),
+  };
+
+  // The very first client of an empty room seeds it with its own note
+  client.send({
+    type: "welcome",
+    isFirst: room.log.length === 0 && room.clients.size === 0,
+    ops: room.log,
+  });
+  room.clients.add(client);
+
+  const broadcast = (message) => {
+    for (const other of room.clients) {
+      if (other !== client) other.send(message);
+    }
+  };
+
+  const leave = () => {
+    room.clients.delete(client);
+    socket.destroy();
+  };
+
+  const onMessage = (text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+    if (message.type === "ops" && Array.isArray(message.ops)) {
+      for (const op of message.ops) room.log.push(op);
+    }
+    broadcast(message);
+  };
+
+  return { onMessage, leave };
+}
+
+// --- 3. SERVER ---
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("Notes-It relay: connect with a WebSocket\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (!key || req.headers.upgrade?.toLowerCase() !== "websocket") {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + HANDSHAKE_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n")
+  );
+
+  const room = new URL(req.url, "http://localhost").searchParams.get("room");
+  const { onMessage, leave } = joinRoom(room || "default", socket);
+
+  socket.on(
+    "data",
+    createFrameReader({
+      onMessage,
+      onClose: leave,
+      onPing: (payload) => socket.write(encodeFrame(payload, OPCODE_PONG)),
+    })
+  );
+  socket.on("close", leave);
+  socket.on("error", leave);
+});
+
+server.listen(PORT, () => {
+  console.log(`Relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,622 @@
+import type {
+  Block,
+  BlockType,
+  HighlightColor,
+  InlineNode,
+  TableAlign,
+} from "./types";
+import {
+  cloneWithFreshIds,
+  createBlock,
+  createDiagramBlock,
+  createImageBlock,
+  getTextLength,
+  parseDOMToContent,
+  sanitizeHref,
+} from "./utils";
+import {
+  blocksToMarkdown,
+  markdownToBlocks,
+  resolveCodeLanguage,
+} from "./markdown";
+import { SCHEMA_VERSION, migrateDocument } from "./storage";
+import { createTableBlock, getTable } from "./table";
+import { parseDiagram } from "./diagram";
+import {
+  DEFAULT_HIGHLIGHT,
+  HIGHLIGHT_COLORS,
+  isHighlightColor,
+} from "./colors";
+
+// --- 1. SANITIZATION ---
+
+// Elements whose content is never meaningful document text.
+const DROPPED_TAGS = new Set([
+  "SCRIPT",
+  "STYLE",
+  "HEAD",
+  "META",
+  "LINK",
+  "TITLE",
+  "IFRAME",
+  "OBJECT",
+  "EMBED",
+  "NOSCRIPT",
+  "TEMPLATE",
+  "SVG",
+  "CANVAS",
+  "BUTTON",
+  "INPUT",
+  "SELECT",
+  "TEXTAREA",
+]);
+
+const BLOCK_TAGS = new Set([
+  "P",
+  "DIV",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "UL",
+  "OL",
+  "LI",
+  "BLOCKQUOTE",
+  "PRE",
+  "HR",
+  "SECTION",
+  "ARTICLE",
+  "MAIN",
+  "HEADER",
+  "FOOTER",
+  "ASIDE",
+  "NAV",
+  "FIGURE",
+  "IMG",
+  "TABLE",
+  "THEAD",
+  "TBODY",
+  "TR",
+  "DL",
+  "DT",
+  "DD",
+  "DETAILS",
+  "SUMMARY",
+]);
+
+const isElement = (node: Node): node is HTMLElement =>
+  node.nodeType === Node.ELEMENT_NODE;
+
+const isBlockElement = (node: Node) =>
+  isElement(node) && BLOCK_TAGS.has(node.tagName);
+
+const BLOCK_SELECTOR = Array.from(BLOCK_TAGS).join(",");
+
+// Inline wrappers around block content (<a><div>…</div></a>) are transparent.
+const containsBlocks = (node: Node) =>
+  isElement(node) && node.querySelector(BLOCK_SELECTOR) !== null;
+
+function cleanNode(node: Node, inPre: boolean) {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.COMMENT_NODE) {
+      child.remove();
+    } else if (child.nodeType === Node.TEXT_NODE) {
+      // Source formatting whitespace collapses like it does in the browser.
+      if (!inPre) child.textContent = child.textContent!.replace(/\s+/g, " ");
+    } else if (isElement(child)) {
+      // A task list checkbox is dropped with the other form controls, but
+      // its item remembers the state (see `convertListItem`).
+      const item = child.tagName === "INPUT" && child.closest("li");
+      if (item && child.getAttribute("type") === "checkbox") {
+        item.dataset.checked = String(child.hasAttribute("checked"));
+      }
+      if (DROPPED_TAGS.has(child.tagName)) {
+        child.remove();
+      } else if (child.tagName === "BR") {
+        child.replaceWith(child.ownerDocument.createTextNode("\n"));
+      } else if (
+        child.tagName === "B" &&
+        (child.style.fontWeight === "normal" ||
+          parseInt(child.style.fontWeight) < 600)
+      ) {
+        // Google Docs wraps whole documents in <b style="font-weight:normal">.
+        // Unwrap it and clean again so the hoisted children get visited.
+        child.replaceWith(...Array.from(child.childNodes));
+        cleanNode(node, inPre);
+        return;
+      } else {
+        cleanNode(child, inPre || child.tagName === "PRE");
+      }
+    }
+  }
+}
+
+/**
+ * Parses clipboard HTML into a detached document with unsafe and
+ * presentational-only elements removed.
+ */
+export function sanitizeHTML(html: string): HTMLElement {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  cleanNode(doc.body, false);
+  return doc.body;
+}
+
+// --- 2. HTML -> BLOCKS ---
+
+function trimContent(content: InlineNode[]): InlineNode[] {
+  const trimmed = content.map((node) => ({ ...node }));
+  if (trimmed.length > 0) {
+    trimmed[0].text = trimmed[0].text.replace(/^[ \n]+/, "");
+    const last = trimmed[trimmed.length - 1];
+    last.text = last.text.replace(/[ \n]+$/, "");
+  }
+  return trimmed.filter((node) => node.text.length > 0);
+}
+
+function parseInlineNodes(nodes: Node[]): InlineNode[] {
+  const container = document.createElement("span");
+  nodes.forEach((node) => container.appendChild(node.cloneNode(true)));
+  return trimContent(parseDOMToContent(container, []));
+}
+
+function textBlock(type: BlockType, content: InlineNode[]): Block {
+  return { ...createBlock(type), content };
+}
+
+// The first paragraph inside a container (quote, list item) becomes the
+// container's own text; everything after it is nested as children.
+function adoptLeadingParagraph(container: Block, inner: Block[]): Block {
+  if (inner[0]?.type === "paragraph" && container.content.length === 0) {
+    const [first, ...rest] = inner;
+    return {
+      ...container,
+      content: first.content,
+      children: [...container.children, ...first.children, ...rest],
+    };
+  }
+  return { ...container, children: [...container.children, ...inner] };
+}
+
+function convertNodes(nodes: Node[]): Block[] {
+  const blocks: Block[] = [];
+  let inlineRun: Node[] = [];
+
+  const flushInline = () => {
+    const content = parseInlineNodes(inlineRun);
+    if (content.length > 0) blocks.push(textBlock("paragraph", content));
+    inlineRun = [];
+  };
+
+  nodes.forEach((child) => {
+    if (isBlockElement(child)) {
+      flushInline();
+      blocks.push(...convertElement(child as HTMLElement));
+    } else if (containsBlocks(child)) {
+      flushInline();
+      blocks.push(...convertChildren(child));
+    } else {
+      inlineRun.push(child);
+    }
+  });
+  flushInline();
+
+  return blocks;
+}
+
+const convertChildren = (parent: Node) =>
+  convertNodes(Array.from(parent.childNodes));
+
+function convertListItem(li: HTMLElement, type: BlockType): Block {
+  const inlineNodes: Node[] = [];
+  const nested: Node[] = [];
+  li.childNodes.forEach((child) => {
+    (isBlockElement(child) || nested.length > 0 ? nested : inlineNodes).push(
+      child
+    );
+  });
+
+  const checked = li.dataset.checked;
+  const item = textBlock(
+    checked ? "todo" : type,
+    parseInlineNodes(inlineNodes)
+  );
+  if (checked) item.props = { ...item.props, checked: checked === "true" };
+  return adoptLeadingParagraph(item, convertNodes(nested));
+}
+
+const TABLE_ALIGNS: TableAlign[] = ["left", "center", "right"];
+
+function convertTable(table: HTMLTableElement): Block {
+  const rows = Array.from(table.rows);
+  const first = rows[0];
+  const cells = Array.from(first?.cells ?? []);
+  const columnAlign = cells.map((cell) => {
+    const align = (
+      cell.getAttribute("align") || cell.style.textAlign
+    ).toLowerCase() as TableAlign;
+    return TABLE_ALIGNS.includes(align) ? align : "left";
+  });
+  return createTableBlock({
+    rows: rows.map((row) =>
+      Array.from(row.cells).map((cell) => parseInlineNodes([cell]))
+    ),
+    headerRow:
+      first?.parentElement?.tagName === "THEAD" ||
+      (cells.length > 0 && cells.every((cell) => cell.tagName === "TH")),
+    columnAlign,
+  });
+}
+
+// Only web images can be referenced; `data:` and `blob:` URLs from other
+// pages are not stored.
+function convertImage(img: HTMLImageElement, caption?: Element): Block[] {
+  const src = img.getAttribute("src") ?? "";
+  if (!/^https?:\/\//i.test(src)) return [];
+  const width = parseInt(img.getAttribute("width") ?? "");
+  return [
+    createImageBlock({
+      src,
+      alt: img.alt || undefined,
+      width: width > 0 ? width : undefined,
+      caption: caption?.textContent?.trim() || undefined,
+    }),
+  ];
+}
+
+function convertElement(el: HTMLElement): Block[] {
+  const tag = el.tagName;
+
+  if (/^H[1-6]$/.test(tag)) {
+    const block = textBlock("heading", parseInlineNodes([el]));
+    block.props = { level: Math.min(Number(tag[1]), 3) as 1 | 2 | 3 };
+    return [block];
+  }
+
+  switch (tag) {
+    case "HR":
+      return [createBlock("divider")];
+
+    case "PRE": {
+      const code = el.querySelector("code") || el;
+      const language = `${el.className} ${code.className}`.match(
+        /(?:language|lang)-([\w+#-]+)/
+      );
+      const text = (el.textContent || "").replace(/\n$/, "");
+      // Diagrams are copied out as `drawio` code blocks
+      if (language?.[1].toLowerCase() === "drawio" && parseDiagram(text)) {
+        return [createDiagramBlock(text)];
+      }
+      const block = createBlock("code", text);
+      if (language)
+        block.props = { language: resolveCodeLanguage(language[1]) };
+      return [block];
+    }
+
+    case "BLOCKQUOTE":
+      return [adoptLeadingParagraph(createBlock("quote"), convertChildren(el))];
+
+    case "UL":
+    case "OL": {
+      const type = tag === "OL" ? "numbered-list" : "bullet-list";
+      const items: Block[] = [];
+      el.childNodes.forEach((child) => {
+        if (isElement(child) && child.tagName === "LI") {
+          items.push(convertListItem(child, type));
+        } else if (
+          isElement(child) &&
+          (child.tagName === "UL" || child.tagName === "OL")
+        ) {
+          // Some editors nest sub-lists as siblings of <li> instead of inside.
+          const nested = convertElement(child);
+          const parent = items[items.length - 1];
+          if (parent) {
+            items[items.length - 1] = {
+              ...parent,
+              children: [...parent.children, ...nested],
+            };
+          } else {
+            items.push(...nested);
+          }
+        }
+      });
+      return items;
+    }
+
+    case "LI":
+      return [convertListItem(el, "bullet-list")];
+
+    case "IMG":
+      return convertImage(el as HTMLImageElement);
+
+    case "FIGURE": {
+      const img = el.querySelector("img");
+      if (!img) return convertChildren(el);
+      return convertImage(img, el.querySelector("figcaption") ?? undefined);
+    }
+
+    case "TABLE":
+      return (el as HTMLTableElement).rows.length > 0
+        ? [convertTable(el as HTMLTableElement)]
+        : [];
+
+    case "DETAILS": {
+      const summary = Array.from(el.children).find(
+        (child) => child.tagName === "SUMMARY"
+      );
+      const toggle = textBlock(
+        "toggle",
+        summary ? parseInlineNodes([summary]) : []
+      );
+      toggle.isOpen = el.hasAttribute("open");
+      toggle.children = convertNodes(
+        Array.from(el.childNodes).filter((child) => child !== summary)
+      );
+      return [toggle];
+    }
+
+    case "P":
+    case "SUMMARY":
+    case "DT":
+    case "DD":
+    case "TR": {
+      if (Array.from(el.childNodes).some(isBlockElement)) {
+        return convertChildren(el);
+      }
+      const content = parseInlineNodes([el]);
+      return content.length > 0 ? [textBlock("paragraph", content)] : [];
+    }
+
+    default:
+      return convertChildren(el);
+  }
+}
+
+/**
+ * Converts pasted HTML into blocks: headings, (nested) lists, quotes, `<pre>`
+ * code, `<hr>` dividers, tables, images and `<details>` toggles. Loose
+ * inline content becomes paragraphs.
+ */
+export function htmlToBlocks(html: string): Block[] {
+  return convertChildren(sanitizeHTML(html));
+}
+
+// --- 3. BLOCKS -> HTML ---
+
+function escapeHTML(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function inlineToHTML(content: InlineNode[]): string {
+  if (getTextLength(content) === 0) return "<br>";
+  return content
+    .map((node) => {
+      let html = escapeHTML(node.text).replace(/\n/g, "<br>");
+      const has = (type: string) => node.marks.some((m) => m.type === type);
+      if (has("code")) html = `<code>${html}</code>`;
+      if (has("strike")) html = `<s>${html}</s>`;
+      if (has("underline")) html = `<u>${html}</u>`;
+      if (has("italic")) html = `<em>${html}</em>`;
+      if (has("bold")) html = `<strong>${html}</strong>`;
+      const highlight = node.marks.find((m) => m.type === "highlight");
+      if (highlight) {
+        const color: HighlightColor = isHighlightColor(highlight.attrs?.color)
+          ? highlight.attrs.color
+          : DEFAULT_HIGHLIGHT;
+        html = `<mark data-color="${color}" style="background-color: ${HIGHLIGHT_COLORS[color]}">${html}</mark>`;
+      }
+      const link = node.marks.find((m) => m.type === "link");
+      const href =
+        typeof link?.attrs?.href === "string"
+          ? sanitizeHref(link.attrs.href)
+          : null;
+      if (href) html = `<a href="${escapeHTML(href)}">${html}</a>`;
+      return html;
+    })
+    .join("");
+}
+
+function alignStyle(block: Block) {
+  const align = block.props.align;
+  return align && align !== "left" ? ` style="text-align: ${align}"` : "";
+}
+
+function blockToHTML(block: Block): string {
+  const children = blocksToHTML(block.children);
+  switch (block.type) {
+    case "heading": {
+      const tag = `h${block.props.level || 1}`;
+      return `<${tag}${alignStyle(block)}>${inlineToHTML(
+        block.content
+      )}</${tag}>${children}`;
+    }
+    case "quote":
+      return `<blockquote><p>${inlineToHTML(
+        block.content
+      )}</p>${children}</blockquote>`;
+    case "code": {
+      const text = block.content.map((n) => n.text).join("");
+      const language = block.props.language
+        ? ` class="language-${escapeHTML(block.props.language)}"`
+        : "";
+      return `<pre><code${language}>${escapeHTML(
+        text
+      )}</code></pre>${children}`;
+    }
+    case "diagram":
+      return `<pre><code class="language-drawio">${escapeHTML(
+        block.props.xml ?? ""
+      )}</code></pre>${children}`;
+    case "divider":
+      return `<hr>${children}`;
+    case "table": {
+      const { rows, headerRow, columnAlign } = getTable(block);
+      const row = (cells: InlineNode[][], tag: string) =>
+        `<tr>${cells
+          .map((cell, c) => {
+            const align = columnAlign[c];
+            const style =
+              align !== "left" ? ` style="text-align: ${align}"` : "";
+            return `<${tag}${style}>${inlineToHTML(cell)}</${tag}>`;
+          })
+          .join("")}</tr>`;
+      const [head, ...body] = headerRow ? rows : [null, ...rows];
+      return `<table>${
+        head ? `<thead>${row(head, "th")}</thead>` : ""
+      }<tbody>${body
+        .map((cells) => row(cells!, "td"))
+        .join("")}</tbody></table>${children}`;
+    }
+    case "image": {
+      // Locally stored images have no URL outside this browser
+      const { src, alt, width, caption } = block.props;
+      const img = `<img${
+        src ? ` src="${escapeHTML(src)}"` : ""
+      } alt="${escapeHTML(alt ?? "")}"${width ? ` width="${width}"` : ""}>`;
+      return `<figure${alignStyle(block)}>${img}${
+        caption ? `<figcaption>${escapeHTML(caption)}</figcaption>` : ""
+      }</figure>${children}`;
+    }
+    case "toggle":
+      return `<details${block.isOpen ? " open" : ""}><summary>${inlineToHTML(
+        block.content
+      )}</summary>${children}</details>`;
+    default:
+      return `<p${alignStyle(block)}>${inlineToHTML(
+        block.content
+      )}</p>${children}`;
+  }
+}
+
+/**
+ * Serializes blocks to semantic HTML for pasting into other applications.
+ * Consecutive list items are grouped into a single `<ul>` / `<ol>`; to-dos
+ * become task list items with a checkbox.
+ */
+export function blocksToHTML(blocks: Block[]): string {
+  let html = "";
+  let i = 0;
+  while (i < blocks.length) {
+    const block = blocks[i];
+    if (
+      block.type === "bullet-list" ||
+      block.type === "numbered-list" ||
+      block.type === "todo"
+    ) {
+      const tag = block.type === "numbered-list" ? "ol" : "ul";
+      html += `<${tag}>`;
+      while (i < blocks.length && blocks[i].type === block.type) {
+        const item = blocks[i];
+        const checkbox =
+          item.type === "todo"
+            ? `<input type="checkbox" disabled${
+                item.props.checked ? " checked" : ""
+              }> `
+            : "";
+        html += `<li${alignStyle(item)}>${checkbox}${inlineToHTML(
+          item.content
+        )}${blocksToHTML(item.children)}</li>`;
+        i++;
+      }
+      html += `</${tag}>`;
+      continue;
+    }
+    html += blockToHTML(block);
+    i++;
+  }
+  return html;
+}
+
+// --- 4. CLIPBOARD I/O ---
+
+export const NOTES_IT_MIME = "application/x-notes-it+json";
+
+/**
+ * A fragment of the document on the clipboard. `inline` is set when the
+ * selection lay inside a single block, in which case pasting splices the
+ * text into the target block instead of inserting new blocks.
+ */
+export interface ClipboardSlice {
+  blocks: Block[];
+  inline: boolean;
+}
+
+export function writeClipboard(data: DataTransfer, slice: ClipboardSlice) {
+  const plainText = slice.inline
+    ? slice.blocks.map((b) => b.content.map((n) => n.text).join("")).join("\n")
+    : blocksToMarkdown(slice.blocks);
+
+  data.setData("text/plain", plainText);
+  data.setData("text/html", blocksToHTML(slice.blocks));
+  data.setData(
+    NOTES_IT_MIME,
+    JSON.stringify({
+      version: SCHEMA_VERSION,
+      inline: slice.inline,
+      blocks: slice.blocks,
+    })
+  );
+}
+
+// Image files on a paste, a drop or a file input
+export const readImageFiles = (source: { files: FileList | null }) =>
+  Array.from(source.files ?? []).filter((file) =>
+    file.type.startsWith("image/")
+  );
+
+// Comment threads stay with the text they were made on; copies are unmarked.
+function stripComments(blocks: Block[]): Block[] {
+  return blocks.map((block) => ({
+    ...block,
+    content: block.content.map((node) => ({
+      ...node,
+      marks: node.marks.filter((m) => m.type !== "comment"),
+    })),
+    children: stripComments(block.children),
+  }));
+}
+
+function readNotesItSlice(json: string): ClipboardSlice | null {
+  try {
+    const payload = JSON.parse(json);
+    return {
+      blocks: stripComments(cloneWithFreshIds(migrateDocument(payload))),
+      inline: payload.inline === true,
+    };
+  } catch (err) {
+    console.warn("Ignoring malformed Notes-It clipboard data", err);
+    return null;
+  }
+}
+
+/**
+ * Reads the richest format available: our own JSON flavor (lossless), then
+ * HTML, then multi-line plain text as Markdown. Returns null for single-line
+ * plain text, which the browser can insert by itself.
+ */
+export function readClipboard(data: DataTransfer): ClipboardSlice | null {
+  const json = data.getData(NOTES_IT_MIME);
+  if (json) {
+    const slice = readNotesItSlice(json);
+    if (slice) return slice;
+  }
+
+  const html = data.getData("text/html");
+  const text = data.getData("text/plain");
+  if (!html && !text.includes("\n")) return null;
+
+  const blocks = html ? htmlToBlocks(html) : markdownToBlocks(text);
+  const [first] = blocks;
+  return {
+    blocks,
+    inline:
+      blocks.length === 1 &&
+      first.type === "paragraph" &&
+      first.children.length === 0,
+  };
+}
@@ -0,0 +1,285 @@
+// Editing commands for code blocks. Like the input rules they never see the
+// DOM: each takes the block's text and selection and returns the new text
+// and selection, or null when it does not apply.
+
+export interface CodeEdit {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export const INDENT = "  ";
+
+const PAIRS: Record<string, string> = {
+  "(": ")",
+  "[": "]",
+  "{": "}",
+  '"': '"',
+  "'": "'",
+  "`": "`",
+};
+
+const CLOSERS = new Set([")", "]", "}"]);
+
+const QUOTES: Record<string, true> = { '"': true, "'": true, "`": true };
+
+// [prefix, suffix] of a line comment; CSS and HTML only have block comments
+const LINE_COMMENTS: Record<string, [string, string]> = {
+  TypeScript: ["//", ""],
+  JavaScript: ["//", ""],
+  Rust: ["//", ""],
+  Python: ["#", ""],
+  SQL: ["--", ""],
+  CSS: ["/*", "*/"],
+  HTML: ["<!--", "-->"],
+};
+
+const lineStartAt = (text: string, offset: number) =>
+  text.lastIndexOf("\n", offset - 1) + 1;
+
+const lineEndAt = (text: string, offset: number) => {
+  const end = text.indexOf("\n", offset);
+  return end === -1 ? text.length : end;
+};
+
+const replace = (
+  text: string,
+  start: number,
+  end: number,
+  insert: string,
+  caret = start + insert.length
+): CodeEdit => ({
+  text: text.slice(0, start) + insert + text.slice(end),
+  start: caret,
+  end: caret,
+});
+
+// --- 1. NEW LINES ---
+
+/**
+ * Enter keeps the current line's indentation, adds a level after an opening
+ * bracket (or a `:` in Python), and puts a closing bracket that follows the
+ * caret on a line of its own.
+ */
+export function insertNewline(
+  text: string,
+  start: number,
+  end: number,
+  language: string
+): CodeEdit {
+  const lineStart = lineStartAt(text, start);
+  const indent = /^[ \t]*/.exec(text.slice(lineStart, start))![0];
+  const before = text.slice(lineStart, start).trimEnd();
+  const last = before[before.length - 1];
+  const opens =
+    (last !== undefined && last in PAIRS && !(last in QUOTES)) ||
+    (language === "Python" && last === ":");
+
+  if (!opens) return replace(text, start, end, "\n" + indent);
+  const inner = "\n" + indent + INDENT;
+  if (PAIRS[last] !== undefined && text[end] === PAIRS[last]) {
+    return replace(
+      text,
+      start,
+      end,
+      inner + "\n" + indent,
+      start + inner.length
+    );
+  }
+  return replace(text, start, end, inner);
+}
+
+// --- 2. INDENTATION ---
+
+// The lines touched by [start, end), as offsets of their starts
+function selectedLines(text: string, start: number, end: number) {
+  const first = lineStartAt(text, start);
+  // A selection ending at the very start of a line does not include it
+  const last = end > start && text[end - 1] === "\n" ? end - 1 : end;
+  const starts = [first];
+  for (let i = text.indexOf("\n", first); i !== -1 && i < last; ) {
+    starts.push(i + 1);
+    i = text.indexOf("\n", i + 1);
+  }
+  return starts;
+}
+
+interface LineChange {
+  line: string;
+  // `removed` characters at `at` became `inserted` new ones; anything else
+  // that changed (a comment suffix) is at the end of the line.
+  at: number;
+  removed: number;
+  inserted: number;
+}
+
+const unchanged = (line: string): LineChange => ({
+  line,
+  at: 0,
+  removed: 0,
+  inserted: 0,
+});
+
+// Rewrites each selected line with `update` and keeps the selection on the
+// same text.
+function mapLines(
+  text: string,
+  start: number,
+  end: number,
+  update: (line: string) => LineChange
+): CodeEdit {
+  let result = text;
+  let newStart = start;
+  let newEnd = end;
+  // Last line first, so earlier offsets stay valid
+  for (const lineStart of selectedLines(text, start, end).reverse()) {
+    const lineEnd = lineEndAt(result, lineStart);
+    const old = result.slice(lineStart, lineEnd);
+    const change = update(old);
+    result = result.slice(0, lineStart) + change.line + result.slice(lineEnd);
+
+    const pivot = lineStart + change.at;
+    const move = (offset: number) => {
+      if (offset > lineEnd) return offset + change.line.length - old.length;
+      if (offset < pivot) return offset;
+      if (offset < pivot + change.removed) return pivot;
+      return Math.min(
+        offset - change.removed + change.inserted,
+        lineStart + change.line.length
+      );
+    };
+    newStart = move(newStart);
+    newEnd = move(newEnd);
+  }
+  return { text: result, start: newStart, end: newEnd };
+}
+
+/**
+ * Tab indents and Shift+Tab outdents every line the selection touches. Tab
+ * with a caret (or a selection within one line) just inserts an indent.
+ */
+export function indentLines(
+  text: string,
+  start: number,
+  end: number,
+  outdent: boolean
+): CodeEdit | null {
+  if (!outdent && !text.slice(start, end).includes("\n")) {
+    return replace(text, start, end, INDENT);
+  }
+  const edit = mapLines(text, start, end, (line) => {
+    if (!outdent) {
+      return {
+        line: INDENT + line,
+        at: 0,
+        removed: 0,
+        inserted: INDENT.length,
+      };
+    }
+    const removed = /^(?: {1,2}|\t)/.exec(line)?.[0].length ?? 0;
+    return { line: line.slice(removed), at: 0, removed, inserted: 0 };
+  });
+  return edit.text === text ? null : edit;
+}
+
+// --- 3. COMMENTS ---
+
+/**
+ * Cmd+/ comments out the selected lines with the language's line comment,
+ * or uncomments them when they all already are. Blank lines are skipped.
+ */
+export function toggleLineComment(
+  text: string,
+  start: number,
+  end: number,
+  language: string
+): CodeEdit | null {
+  const syntax = LINE_COMMENTS[language];
+  if (!syntax) return null;
+  const [prefix, suffix] = syntax;
+
+  const lines = selectedLines(text, start, end).map((lineStart) =>
+    text.slice(lineStart, lineEndAt(text, lineStart))
+  );
+  const filled = lines.filter((line) => line.trim() !== "");
+  if (filled.length === 0) return null;
+
+  const isCommented = (line: string) => {
+    const trimmed = line.trim();
+    return trimmed.startsWith(prefix) && trimmed.endsWith(suffix);
+  };
+  const uncomment = filled.every(isCommented);
+  // Comment markers line up at the shallowest indentation
+  const column = Math.min(
+    ...filled.map((line) => /^[ \t]*/.exec(line)![0].length)
+  );
+
+  return mapLines(text, start, end, (line) => {
+    if (line.trim() === "") return unchanged(line);
+    if (uncomment) {
+      const at = line.indexOf(prefix);
+      const hasSpace = line[at + prefix.length] === " ";
+      const removed = prefix.length + (hasSpace ? 1 : 0);
+      let rest = line.slice(at + removed);
+      if (suffix) {
+        const close = rest.lastIndexOf(suffix);
+        rest =
+          rest.slice(0, close).replace(/ $/, "") +
+          rest.slice(close + suffix.length);
+      }
+      return { line: line.slice(0, at) + rest, at, removed, inserted: 0 };
+    }
+    const open = prefix + " ";
+    const close = suffix ? " " + suffix : "";
+    return {
+      line: line.slice(0, column) + open + line.slice(column) + close,
+      at: column,
+      removed: 0,
+      inserted: open.length,
+    };
+  });
+}
+
+// --- 4. BRACKETS & QUOTES ---
+
+/**
+ * Typing an opening bracket or quote also types its partner, wrapping the
+ * selection if there is one. Typing a closer that is already next to the
+ * caret steps over it.
+ */
+export function autoClosePair(
+  text: string,
+  start: number,
+  end: number,
+  char: string
+): CodeEdit | null {
+  const next = text[end];
+  if (start === end && (CLOSERS.has(char) || char in QUOTES) && next === char) {
+    return { text, start: start + 1, end: start + 1 };
+  }
+
+  const closer = PAIRS[char];
+  if (!closer) return null;
+  if (start !== end) {
+    const selected = text.slice(start, end);
+    return {
+      text: text.slice(0, start) + char + selected + closer + text.slice(end),
+      start: start + 1,
+      end: end + 1,
+    };
+  }
+
+  // Quotes stay single inside words (don't) and before text
+  if (char in QUOTES) {
+    if (/\w/.test(text[start - 1] ?? "")) return null;
+    if (next !== undefined && !/[\s)\]},;:]/.test(next)) return null;
+  }
+  return replace(text, start, end, char + closer, start + 1);
+}
+
+// Backspace between an empty pair removes both halves.
+export function deletePair(text: string, offset: number): CodeEdit | null {
+  const open = text[offset - 1];
+  if (open === undefined || PAIRS[open] !== text[offset]) return null;
+  return replace(text, offset - 1, offset + 1, "");
+}
@@ -0,0 +1,59 @@
+import type { HighlightColor } from "./types";
+
+// Highlight palette, tuned for the dark editor background. The model only
+// stores the colour name; these values are applied at render time.
+export const HIGHLIGHT_COLORS: Record<HighlightColor, string> = {
+  yellow: "rgba(255, 212, 0, 0.35)",
+  orange: "rgba(255, 140, 0, 0.35)",
+  red: "rgba(231, 76, 60, 0.35)",
+  pink: "rgba(255, 105, 180, 0.3)",
+  purple: "rgba(155, 89, 182, 0.4)",
+  blue: "rgba(46, 170, 220, 0.3)",
+  green: "rgba(46, 204, 113, 0.3)",
+};
+
+export const DEFAULT_HIGHLIGHT: HighlightColor = "yellow";
+
+export const isHighlightColor = (value: unknown): value is HighlightColor =>
+  typeof value === "string" && value in HIGHLIGHT_COLORS;
+
+function parseRGB(color: string): [number, number, number, number] | null {
+  const match = color.match(
+    /rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+))?\s*\)/
+  );
+  if (!match) return null;
+  const alpha = match[4] === undefined ? 1 : Number(match[4]);
+  return [Number(match[1]), Number(match[2]), Number(match[3]), alpha];
+}
+
+// Maps an arbitrary CSS background colour (from pasted content) onto the
+// closest palette entry. Transparent and near-white backgrounds are ignored.
+export function nearestHighlightColor(css: string): HighlightColor | null {
+  const rgba = parseRGB(css);
+  if (!rgba) return null;
+  const [r, g, b, a] = rgba;
+  if (a === 0 || (r > 240 && g > 240 && b > 240)) return null;
+
+  let best: HighlightColor | null = null;
+  let bestDistance = Infinity;
+  for (const [name, value] of Object.entries(HIGHLIGHT_COLORS)) {
+    const [pr, pg, pb] = parseRGB(value)!;
+    const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = name as HighlightColor;
+    }
+  }
+  return best;
+}
+
+// Caret colours for collaborators, assigned at random per tab.
+export const PRESENCE_COLORS = [
+  "#e06c75",
+  "#e5c07b",
+  "#98c379",
+  "#56b6c2",
+  "#61afef",
+  "#c678dd",
+  "#d19a66",
+];
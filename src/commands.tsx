@@ -5,9 +5,14 @@ import {
   Heading3,
   List,
   ListOrdered,
+  ListTodo,
   Quote,
   Code,
   Minus,
+  ChevronRight,
+  Table,
+  ImageIcon,
+  Workflow,
 } from "lucide-react";
 import type { Command } from "./types";
 
@@ -53,6 +58,13 @@ export const COMMANDS: Command[] = [
     icon: ListOrdered,
     shortcut: "1.",
   },
+  {
+    type: "todo",
+    label: "To-do list",
+    description: "Track tasks with checkboxes.",
+    icon: ListTodo,
+    shortcut: "[]",
+  },
   {
     type: "quote",
     label: "Quote",
@@ -74,6 +86,30 @@ export const COMMANDS: Command[] = [
     icon: Minus,
     shortcut: "---",
   },
+  {
+    type: "toggle",
+    label: "Toggle",
+    description: "Hide nested blocks under a collapsible line.",
+    icon: ChevronRight,
+  },
+  {
+    type: "table",
+    label: "Table",
+    description: "Add a table with rows and columns.",
+    icon: Table,
+  },
+  {
+    type: "image",
+    label: "Image",
+    description: "Upload an image or drop one in.",
+    icon: ImageIcon,
+  },
+  {
+    type: "diagram",
+    label: "Diagram",
+    description: "Draw shapes and connectors, or import a draw.io file.",
+    icon: Workflow,
+  },
 ];
 
 /**
@@ -136,6 +172,19 @@ export function getPreview(cmd: Command) {
           </ol>
         </Graphic>
       );
+    case "todo":
+      return (
+        <Graphic>
+          <div className="preview-todo">
+            <div className="checked">
+              <span className="preview-checkbox">✓</span> Draft the agenda
+            </div>
+            <div>
+              <span className="preview-checkbox" /> Send the invites
+            </div>
+          </div>
+        </Graphic>
+      );
     case "quote":
       return (
         <Graphic>
@@ -160,6 +209,57 @@ export function getPreview(cmd: Command) {
           <div className="preview-divider"></div>
         </Graphic>
       );
+    case "toggle":
+      return (
+        <Graphic>
+          <div className="preview-toggle">
+            <ChevronRight size={14} className="preview-toggle-chevron" />
+            Click the arrow to show what's inside
+          </div>
+          <div className="preview-toggle-body">Hidden details</div>
+        </Graphic>
+      );
+    case "table":
+      return (
+        <Graphic>
+          <table className="preview-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Design</td>
+                <td>Done</td>
+              </tr>
+              <tr>
+                <td>Build</td>
+                <td>In progress</td>
+              </tr>
+            </tbody>
+          </table>
+        </Graphic>
+      );
+    case "image":
+      return (
+        <Graphic>
+          <div className="preview-image">
+            <ImageIcon size={28} />
+          </div>
+        </Graphic>
+      );
+    case "diagram":
+      return (
+        <Graphic>
+          <svg className="preview-diagram" viewBox="0 0 120 50">
+            <rect x="2" y="15" width="36" height="20" rx="3" />
+            <ellipse cx="100" cy="25" rx="18" ry="11" />
+            <line x1="38" y1="25" x2="80" y2="25" />
+          </svg>
+        </Graphic>
+      );
     default:
       return null;
   }
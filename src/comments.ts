@@ -0,0 +1,88 @@
+import { createContext } from "react";
+import type { Block, Comment, InlineNode } from "./types";
+import { uid } from "./utils";
+
+// --- 1. RENDERING STATE ---
+
+// Lets inline leaves style their comment marks without threading the
+// thread list through every block component.
+export const CommentContext = createContext<{
+  resolvedIds: Set<string>;
+  activeId: string | null;
+}>({ resolvedIds: new Set(), activeId: null });
+
+// --- 2. ANCHORS ---
+
+export interface CommentAnchor {
+  threadId: string;
+  blockId: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Finds the first marked range of every thread, in document order. Blocks
+ * inside collapsed toggles count too. Threads without any marked text (e.g.
+ * after the text was deleted) have no anchor.
+ */
+export function getCommentAnchors(blocks: Block[]): Map<string, CommentAnchor> {
+  const anchors = new Map<string, CommentAnchor>();
+
+  const visit = (block: Block) => {
+    let offset = 0;
+    for (const node of block.content) {
+      const threadId = node.marks.find((m) => m.type === "comment")?.attrs
+        ?.threadId;
+      const anchor = threadId && anchors.get(threadId);
+      if (anchor && anchor.blockId === block.id && anchor.end === offset) {
+        // The same range split over several nodes by other marks
+        anchor.end += node.text.length;
+        anchor.text += node.text;
+      } else if (threadId && !anchor) {
+        anchors.set(threadId, {
+          threadId,
+          blockId: block.id,
+          start: offset,
+          end: offset + node.text.length,
+          text: node.text,
+        });
+      }
+      offset += node.text.length;
+    }
+    block.children.forEach(visit);
+  };
+  blocks.forEach(visit);
+  return anchors;
+}
+
+/**
+ * The parts of [start, end) not yet commented on. A node carries a single
+ * comment mark, so a new thread only anchors to this free text and the
+ * existing threads keep theirs.
+ */
+export function getUncommentedRanges(
+  content: InlineNode[],
+  start: number,
+  end: number
+): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  let offset = 0;
+  for (const node of content) {
+    const from = Math.max(start, offset);
+    const to = Math.min(end, offset + node.text.length);
+    offset += node.text.length;
+    if (from >= to || node.marks.some((m) => m.type === "comment")) continue;
+    const previous = ranges[ranges.length - 1];
+    if (previous?.end === from) previous.end = to;
+    else ranges.push({ start: from, end: to });
+  }
+  return ranges;
+}
+
+export const createComment = (author: string, body: string): Comment => ({
+  id: uid(),
+  author,
+  body,
+  createdAt: Date.now(),
+});
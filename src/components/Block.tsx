@@ -3,8 +3,27 @@ import { GripVertical } from "lucide-react";
 import type { Block, InlineNode, BlockType } from "../types";
 import CodeBlock from "./CodeBlock";
 import DividerBlock from "./DividerBlock";
+import TableBlock from "./TableBlock";
+import ImageBlock from "./ImageBlock";
+import DiagramBlock from "./DiagramBlock";
 import StandardBlock from "./StandardBlock"; // <--- UNIFIED
+import PresenceOverlay from "./PresenceOverlay";
 import { useBlockLogic } from "../hooks/useBlockLogic";
+import { getListNumbers } from "../utils";
+import type { PeerDecoration } from "../presence";
+import { getBlockSuggestion } from "../suggestions";
+
+// Focus state of the whole editor, passed down so that nested children can
+// work out their own focus, caret and preview props.
+export interface BlockFocus {
+  blockId: string | null;
+  caretOffset: number | null;
+  previewType: BlockType | null;
+  isSlashMenuOpen: boolean;
+  isRangeSelection: boolean;
+  // The focused block and every block containing it
+  pathIds: Set<string>;
+}
 
 export interface BlockProps {
   block: Block;
@@ -15,19 +34,35 @@ export interface BlockProps {
   caretOffset: number | null;
   isSlashMenuOpen: boolean;
   isRangeSelection: boolean;
+  focus: BlockFocus;
 
   // New Preview Prop
   previewType?: BlockType | null;
 
-  onUpdateContent: (id: string, content: InlineNode[]) => void;
+  // Collaborators' selections, keyed by block id
+  peerDecorations?: Map<string, PeerDecoration[]>;
+  // Blocks that show a collaborator's selection, and the blocks containing
+  // them
+  peerBlockIds?: Set<string>;
+
+  // `caret` is where the edit leaves the caret, when the DOM does not show
+  // it yet (edits made on keydown)
+  onUpdateContent: (id: string, content: InlineNode[], caret?: number) => void;
   onUpdateMetadata: (id: string, meta: Partial<Block>) => void;
+  onUpdateCell: (
+    id: string,
+    row: number,
+    column: number,
+    content: InlineNode[]
+  ) => void;
   onSelectionChange: (id: string, offset: number) => void;
   onDeleteBlock: (id: string) => void;
   onKeyDown: (e: React.KeyboardEvent, id: string) => void;
+  onPaste: (e: React.ClipboardEvent, id: string) => void;
 
   onDragStart: (id: string) => void;
   onDragOver: (e: React.DragEvent, id: string) => void;
-  onDrop: (targetId: string) => void;
+  onDrop: (e: React.DragEvent, targetId: string) => void;
 
   dropTarget: { id: string; pos: "top" | "bottom" } | null;
 }
@@ -43,14 +78,22 @@ const BlockComponent = React.memo(
       caretOffset,
       isSlashMenuOpen,
       isRangeSelection,
+      focus,
       dropTarget,
       previewType, // Destructure
+      peerDecorations,
+      peerBlockIds,
       ...handlers
     } = props;
 
     const wrapperRef = useRef<HTMLDivElement>(null);
     const [showHandle, setShowHandle] = useState(false);
 
+    const childListNumbers = getListNumbers(block.children);
+    const decorations = peerDecorations?.get(block.id);
+
+    const suggestion = getBlockSuggestion(block);
+
     const isDropTarget = dropTarget?.id === block.id;
     const dropPos = isDropTarget ? dropTarget.pos : null;
 
@@ -61,6 +104,12 @@ const BlockComponent = React.memo(
       Component = <CodeBlock {...props} />;
     } else if (block.type === "divider") {
       Component = <DividerBlock {...props} />;
+    } else if (block.type === "table") {
+      Component = <TableBlock {...props} />;
+    } else if (block.type === "image") {
+      Component = <ImageBlock {...props} />;
+    } else if (block.type === "diagram") {
+      Component = <DiagramBlock {...props} />;
     } else {
       // Merge Paragraph, Heading, List, Quote into StandardBlock for animation support
       Component = <StandardBlock {...props} previewType={previewType} />;
@@ -83,7 +132,7 @@ const BlockComponent = React.memo(
       <div
         className={`block-wrapper ${wrapperClass} ${
           isSelected ? "selected" : ""
-        }`}
+        } ${suggestion ? `suggested-${suggestion.kind}` : ""}`}
         ref={wrapperRef}
         id={block.id}
         onMouseEnter={() => setShowHandle(true)}
@@ -91,7 +140,7 @@ const BlockComponent = React.memo(
         onDragOver={(e) => handlers.onDragOver(e, block.id)}
         onDrop={(e) => {
           e.stopPropagation();
-          handlers.onDrop(block.id);
+          handlers.onDrop(e, block.id);
         }}
         style={{ position: "relative" }}
       >
@@ -130,24 +179,38 @@ const BlockComponent = React.memo(
         <div className="block-content-container">
           {Component}
 
+          {decorations && (
+            <PresenceOverlay
+              blockId={block.id}
+              decorations={decorations}
+              content={block.content}
+            />
+          )}
+
           {block.children.length > 0 && block.isOpen && (
             <div className="block-children">
-              {block.children.map((child, i) => (
-                <BlockComponent
-                  key={child.id}
-                  block={child}
-                  index={i}
-                  listNumber={0}
-                  isSelected={false}
-                  isFocused={false}
-                  caretOffset={null}
-                  isSlashMenuOpen={false}
-                  isRangeSelection={false}
-                  dropTarget={dropTarget}
-                  previewType={null} // Don't pass preview to children
-                  {...handlers}
-                />
-              ))}
+              {block.children.map((child, i) => {
+                const isChildFocused = focus.blockId === child.id;
+                return (
+                  <BlockComponent
+                    key={child.id}
+                    block={child}
+                    index={i}
+                    listNumber={childListNumbers[i]}
+                    isSelected={false}
+                    isFocused={isChildFocused}
+                    caretOffset={isChildFocused ? focus.caretOffset : null}
+                    isSlashMenuOpen={isChildFocused && focus.isSlashMenuOpen}
+                    isRangeSelection={isChildFocused && focus.isRangeSelection}
+                    focus={focus}
+                    dropTarget={dropTarget}
+                    previewType={isChildFocused ? focus.previewType : null}
+                    peerDecorations={peerDecorations}
+                    peerBlockIds={peerBlockIds}
+                    {...handlers}
+                  />
+                );
+              })}
             </div>
           )}
         </div>
@@ -155,6 +218,28 @@ const BlockComponent = React.memo(
     );
   },
   (prev, next) => {
+    // A focused descendant needs the latest focus state to reach it.
+    const hasFocusedChild = (p: BlockProps) =>
+      p.focus.blockId !== p.block.id && p.focus.pathIds.has(p.block.id);
+    if (
+      (hasFocusedChild(prev) || hasFocusedChild(next)) &&
+      (prev.focus.blockId !== next.focus.blockId ||
+        prev.focus.caretOffset !== next.focus.caretOffset ||
+        prev.focus.previewType !== next.focus.previewType ||
+        prev.focus.isSlashMenuOpen !== next.focus.isSlashMenuOpen ||
+        prev.focus.isRangeSelection !== next.focus.isRangeSelection)
+    )
+      return false;
+
+    // Only blocks that show (or showed) a collaborator's selection redraw
+    const hasPeers = (p: BlockProps) =>
+      p.peerBlockIds?.has(p.block.id) ?? false;
+    if (
+      prev.peerDecorations !== next.peerDecorations &&
+      (hasPeers(prev) || hasPeers(next))
+    )
+      return false;
+
     if (next.isSlashMenuOpen) return false;
     if (prev.isSlashMenuOpen !== next.isSlashMenuOpen) return false;
     if (prev.isRangeSelection !== next.isRangeSelection) return false;
@@ -1,7 +1,15 @@
-import React from "react";
+import React, { useContext } from "react";
 import type { InlineNode } from "../types";
+import {
+  DEFAULT_HIGHLIGHT,
+  HIGHLIGHT_COLORS,
+  isHighlightColor,
+} from "../colors";
+import { CommentContext } from "../comments";
+import { sanitizeHref } from "../utils";
 
 const Leaf = ({ node }: { node: InlineNode }) => {
+  const { resolvedIds, activeId } = useContext(CommentContext);
   let children: React.ReactNode = node.text;
 
   if (node.marks.some((m) => m.type === "bold")) {
@@ -23,6 +31,77 @@ const Leaf = ({ node }: { node: InlineNode }) => {
       </code>
     );
   }
+  const highlight = node.marks.find((m) => m.type === "highlight");
+  if (highlight) {
+    const color = isHighlightColor(highlight.attrs?.color)
+      ? highlight.attrs.color
+      : DEFAULT_HIGHLIGHT;
+    children = (
+      <mark
+        className="inline-highlight"
+        data-color={color}
+        style={{ backgroundColor: HIGHLIGHT_COLORS[color] }}
+      >
+        {children}
+      </mark>
+    );
+  }
+  // Links can arrive from saved data, pasted JSON or collaborators, so
+  // the href is checked again before it becomes clickable.
+  const link = node.marks.find((m) => m.type === "link");
+  const href =
+    typeof link?.attrs?.href === "string"
+      ? sanitizeHref(link.attrs.href)
+      : null;
+  if (href) {
+    children = (
+      <a
+        href={href}
+        className="inline-link"
+        title={`${href} (Cmd+click to open)`}
+        onClick={(e) => {
+          // Plain clicks place the caret; Cmd/Ctrl+click follows the link.
+          e.preventDefault();
+          if (e.metaKey || e.ctrlKey) {
+            window.open(href, "_blank", "noopener,noreferrer");
+          }
+        }}
+      >
+        {children}
+      </a>
+    );
+  }
+  const threadId: string | undefined = node.marks.find(
+    (m) => m.type === "comment"
+  )?.attrs?.threadId;
+  if (threadId) {
+    children = (
+      <span
+        className={`inline-comment ${
+          resolvedIds.has(threadId) ? "resolved" : ""
+        } ${activeId === threadId ? "active" : ""}`}
+        data-thread-id={threadId}
+      >
+        {children}
+      </span>
+    );
+  }
+  const suggestion = node.marks.find(
+    (m) => m.type === "insertion" || m.type === "deletion"
+  );
+  if (suggestion) {
+    children = (
+      <span
+        className={`inline-${suggestion.type}`}
+        data-suggestion={suggestion.type}
+        data-suggestion-id={suggestion.attrs?.suggestionId}
+        data-author={suggestion.attrs?.author}
+        title={suggestion.attrs?.author}
+      >
+        {children}
+      </span>
+    );
+  }
 
   return (
     <span data-node-id={node.id} className="leaf-node">
@@ -1,14 +1,30 @@
 import React, { useRef, useLayoutEffect, useState, useEffect } from "react";
-import { ChevronDown, Check, Trash, Search } from "lucide-react";
+import { ChevronDown, Check, Copy, Trash, Search } from "lucide-react";
 import BlockContent from "./BlockContent";
 import type { Block, InlineNode } from "../types";
-import { parseDOMToContent, getCaretOffset, setCaretOffset } from "../utils";
+import {
+  parseDOMToContent,
+  getCaretOffset,
+  setCaretOffset,
+  getSelectionOffsets,
+  findDOMPosition,
+  uid,
+} from "../utils";
+import { clearCodeHighlights, highlightCode } from "../highlight";
+import {
+  autoClosePair,
+  deletePair,
+  indentLines,
+  insertNewline,
+  toggleLineComment,
+  type CodeEdit,
+} from "../codeEditing";
 
 interface Props {
   block: Block;
   isFocused: boolean;
   caretOffset: number | null;
-  onUpdateContent: (id: string, content: InlineNode[]) => void;
+  onUpdateContent: (id: string, content: InlineNode[], caret?: number) => void;
   onUpdateMetadata: (id: string, meta: Partial<Block>) => void;
   onSelectionChange: (id: string, offset: number) => void;
   onDeleteBlock: (id: string) => void;
@@ -38,9 +54,11 @@ export default function CodeBlock({
 }: Props) {
   const contentRef = useRef<HTMLDivElement>(null);
   const cursorOffsetRef = useRef<number | null>(null);
+  const selectionRef = useRef<{ start: number; end: number } | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const [isOpen, setIsOpen] = useState(false);
   const [version, setVersion] = useState(0); // Forces re-render on edit
+  const [copied, setCopied] = useState(false);
 
   const currentLanguage = block.props?.language || "TypeScript";
 
@@ -56,24 +74,78 @@ export default function CodeBlock({
     return () => document.removeEventListener("mousedown", handler);
   }, []);
 
+  const rawText = block.content.map((n) => n.text).join("");
+  const hasTrailingNewline = rawText.endsWith("\n");
+
+  // Commits an edit from `codeEditing.ts`; the selection is restored once
+  // the fresh DOM is rendered. An edit that only moves the caret (typing
+  // over a closing bracket) changes nothing, so it is no undo step.
+  const applyEdit = (edit: CodeEdit) => {
+    selectionRef.current = { start: edit.start, end: edit.end };
+    if (edit.text !== rawText) {
+      // The DOM caret is still where the key was pressed
+      onUpdateContent(
+        block.id,
+        edit.text ? [{ id: uid(), text: edit.text, marks: [] }] : [],
+        edit.start === edit.end ? edit.end : undefined
+      );
+    }
+    setVersion((v) => v + 1);
+  };
+
+  const getEdit = (e: React.KeyboardEvent): CodeEdit | null => {
+    if (!contentRef.current || e.nativeEvent.isComposing) return null;
+    const { start, end } = getSelectionOffsets(contentRef.current);
+    const isMod = e.metaKey || e.ctrlKey;
+
+    if (e.key === "Tab") return indentLines(rawText, start, end, e.shiftKey);
+    if (e.key === "Enter" && !isMod) {
+      return insertNewline(rawText, start, end, currentLanguage);
+    }
+    if (e.key === "/" && isMod) {
+      return toggleLineComment(rawText, start, end, currentLanguage);
+    }
+    if (e.key === "Backspace" && !isMod && start === end) {
+      return deletePair(rawText, start);
+    }
+    if (e.key.length === 1 && !isMod && !e.altKey) {
+      return autoClosePair(rawText, start, end, e.key);
+    }
+    return null;
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Tab") {
+    const edit = getEdit(e);
+    if (edit) {
       e.preventDefault();
-      document.execCommand("insertText", false, "  ");
+      applyEdit(edit);
       return;
     }
-    if (e.key === "Enter") {
-      if (e.metaKey || e.ctrlKey) {
-        onKeyDown(e, block.id);
-        return;
-      }
+    // Tab never leaves the block, even when there is nothing to outdent
+    if (e.key === "Tab") {
       e.preventDefault();
-      document.execCommand("insertText", false, "\n");
       return;
     }
     onKeyDown(e, block.id);
   };
 
+  const handleCopy = () => {
+    navigator.clipboard
+      .writeText(rawText)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch((err) => console.error("Failed to copy code", err));
+  };
+
+  // Code is always pasted as plain text, never as formatted blocks.
+  const handlePaste = (e: React.ClipboardEvent) => {
+    e.preventDefault();
+    const text = e.clipboardData.getData("text/plain");
+    if (text) document.execCommand("insertText", false, text);
+  };
+
   const handleInput = (e: React.FormEvent<HTMLDivElement>) => {
     if (contentRef.current)
       cursorOffsetRef.current = getCaretOffset(contentRef.current);
@@ -83,8 +155,22 @@ export default function CodeBlock({
   };
 
   useLayoutEffect(() => {
-    if (cursorOffsetRef.current !== null && contentRef.current && isFocused) {
-      setCaretOffset(contentRef.current, cursorOffsetRef.current);
+    const root = contentRef.current;
+    if (!root || !isFocused) return;
+    if (selectionRef.current) {
+      const anchor = findDOMPosition(root, selectionRef.current.start);
+      const focus = findDOMPosition(root, selectionRef.current.end);
+      window
+        .getSelection()
+        ?.setBaseAndExtent(
+          anchor.node,
+          anchor.offset,
+          focus.node,
+          focus.offset
+        );
+      selectionRef.current = null;
+    } else if (cursorOffsetRef.current !== null) {
+      setCaretOffset(root, cursorOffsetRef.current);
       cursorOffsetRef.current = null;
     }
   }, [block.content, isFocused, version]);
@@ -95,8 +181,16 @@ export default function CodeBlock({
     }
   }, [isFocused, caretOffset]);
 
-  const rawText = block.content.map((n) => n.text).join("");
-  const hasTrailingNewline = rawText.endsWith("\n");
+  // Colours are drawn over the rendered text (see `highlight.ts`)
+  useEffect(() => {
+    if (contentRef.current) {
+      highlightCode(block.id, contentRef.current, currentLanguage);
+    }
+  }, [block.id, block.content, currentLanguage, version]);
+
+  useEffect(() => () => clearCodeHighlights(block.id), [block.id]);
+
+  const lineCount = rawText.split("\n").length;
 
   return (
     <div
@@ -149,38 +243,57 @@ export default function CodeBlock({
             </div>
           )}
         </div>
-        <div
-          onClick={() => onDeleteBlock(block.id)}
-          style={{ cursor: "pointer", color: "#666" }}
-        >
-          <Trash size={14} />
+        <div style={{ display: "flex", gap: 8 }}>
+          <div
+            onClick={handleCopy}
+            title={copied ? "Copied" : "Copy code"}
+            style={{ cursor: "pointer", color: copied ? "#4dab6f" : "#666" }}
+          >
+            {copied ? <Check size={14} /> : <Copy size={14} />}
+          </div>
+          <div
+            onClick={() => onDeleteBlock(block.id)}
+            style={{ cursor: "pointer", color: "#666" }}
+          >
+            <Trash size={14} />
+          </div>
         </div>
       </div>
 
-      <div
-        key={`${block.id}-${version}`} // Stable key logic
-        ref={contentRef}
-        className="block block-code"
-        contentEditable
-        suppressContentEditableWarning
-        onInput={handleInput}
-        onKeyDown={handleKeyDown}
-        onMouseUp={() => {
-          const sel = window.getSelection();
-          if (sel?.anchorNode) onSelectionChange(block.id, sel.anchorOffset);
-        }}
-        onFocus={() => {
-          if (!isFocused) onSelectionChange(block.id, 0);
-        }}
-        spellCheck={false}
-        style={{
-          whiteSpace: "pre-wrap",
-          fontFamily: "monospace",
-          minHeight: "40px",
-        }}
-      >
-        <BlockContent content={block.content} />
-        {hasTrailingNewline && <br />}
+      <div className="code-body">
+        <div className="code-line-numbers" contentEditable={false}>
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i}>{i + 1}</div>
+          ))}
+        </div>
+        <div
+          key={`${block.id}-${version}`} // Stable key logic
+          ref={contentRef}
+          data-block-id={block.id}
+          className="block block-code"
+          contentEditable
+          suppressContentEditableWarning
+          onInput={handleInput}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          onMouseUp={() => {
+            const sel = window.getSelection();
+            if (sel?.anchorNode) onSelectionChange(block.id, sel.anchorOffset);
+          }}
+          onFocus={() => {
+            if (!isFocused) onSelectionChange(block.id, 0);
+          }}
+          spellCheck={false}
+          style={{
+            whiteSpace: "pre",
+            overflowX: "auto",
+            fontFamily: "monospace",
+            minHeight: "40px",
+          }}
+        >
+          <BlockContent content={block.content} />
+          {hasTrailingNewline && <br />}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, RotateCcw } from "lucide-react";
+import type { CommentThread } from "../types";
+import type { CommentAnchor } from "../comments";
+
+interface Props {
+  // Threads whose text is still in the document, in document order
+  threads: { thread: CommentThread; anchor: CommentAnchor }[];
+  activeId: string | null;
+  isDrafting: boolean;
+  onSubmitDraft: (body: string) => void;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, body: string) => void;
+  onResolve: (threadId: string, resolved: boolean) => void;
+  onSelectThread: (anchor: CommentAnchor) => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+
+// A text box that submits on Enter (Shift+Enter for a new line).
+function Composer({
+  placeholder,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState("");
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (autoFocus) inputRef.current?.focus();
+  }, [autoFocus]);
+
+  const submit = () => {
+    if (!body.trim()) return;
+    onSubmit(body.trim());
+    setBody("");
+  };
+
+  return (
+    <div className="comment-composer" onClick={(e) => e.stopPropagation()}>
+      <textarea
+        ref={inputRef}
+        rows={1}
+        value={body}
+        placeholder={placeholder}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+          }
+          if (e.key === "Escape") onCancel?.();
+        }}
+      />
+      <div className="comment-composer-actions">
+        {onCancel && (
+          <button className="comment-btn" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+        <button
+          className="comment-btn primary"
+          disabled={!body.trim()}
+          onClick={submit}
+        >
+          Comment
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function CommentSidebar({
+  threads,
+  activeId,
+  isDrafting,
+  onSubmitDraft,
+  onCancelDraft,
+  onReply,
+  onResolve,
+  onSelectThread,
+}: Props) {
+  const [showResolved, setShowResolved] = useState(false);
+  const resolvedCount = threads.filter(({ thread }) => thread.resolved).length;
+  const visible = threads.filter(
+    ({ thread }) => showResolved || !thread.resolved
+  );
+
+  return (
+    <aside className="comment-sidebar">
+      {isDrafting && (
+        <div className="comment-thread active">
+          <Composer
+            placeholder="Add a comment..."
+            autoFocus
+            onSubmit={onSubmitDraft}
+            onCancel={onCancelDraft}
+          />
+        </div>
+      )}
+
+      {visible.map(({ thread, anchor }) => (
+        <div
+          key={thread.id}
+          className={`comment-thread ${
+            activeId === thread.id ? "active" : ""
+          } ${thread.resolved ? "resolved" : ""}`}
+          onClick={() => onSelectThread(anchor)}
+        >
+          <div className="comment-thread-header">
+            <span className="comment-quote">{anchor.text}</span>
+            <button
+              className="toolbar-btn"
+              title={thread.resolved ? "Reopen" : "Resolve"}
+              onClick={(e) => {
+                e.stopPropagation();
+                onResolve(thread.id, !thread.resolved);
+              }}
+            >
+              {thread.resolved ? <RotateCcw size={14} /> : <Check size={14} />}
+            </button>
+          </div>
+
+          {thread.comments.map((comment) => (
+            <div key={comment.id} className="comment">
+              <div className="comment-meta">
+                <span className="comment-author">{comment.author}</span>
+                <span>{formatTime(comment.createdAt)}</span>
+              </div>
+              <div className="comment-body">{comment.body}</div>
+            </div>
+          ))}
+
+          {!thread.resolved && activeId === thread.id && (
+            <Composer
+              placeholder="Reply..."
+              onSubmit={(body) => onReply(thread.id, body)}
+            />
+          )}
+        </div>
+      ))}
+
+      {resolvedCount > 0 && (
+        <button
+          className="comment-btn"
+          onClick={() => setShowResolved((show) => !show)}
+        >
+          {showResolved ? "Hide" : "Show"} resolved ({resolvedCount})
+        </button>
+      )}
+    </aside>
+  );
+}
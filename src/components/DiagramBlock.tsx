@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Download, Pencil, Trash, Upload, Workflow } from "lucide-react";
+import DiagramEditor from "./DiagramEditor";
+import DiagramSVG from "./DiagramSVG";
+import type { Block } from "../types";
+import {
+  getDiagramBounds,
+  isDiagramFile,
+  parseDiagram,
+  readDiagramFile,
+  toDrawioFile,
+} from "../diagram";
+
+interface Props {
+  block: Block;
+  isFocused: boolean;
+  onUpdateMetadata: (id: string, meta: Partial<Block>) => void;
+  onSelectionChange: (id: string, offset: number) => void;
+  onDeleteBlock: (id: string) => void;
+  onKeyDown: (e: React.KeyboardEvent, id: string) => void;
+}
+
+// Space around the drawing in the preview
+const PADDING = 10;
+
+export default function DiagramBlock({
+  block,
+  isFocused,
+  onUpdateMetadata,
+  onSelectionChange,
+  onDeleteBlock,
+  onKeyDown,
+}: Props) {
+  const ref = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const xml: string = block.props.xml ?? "";
+  const diagram = useMemo(() => (xml ? parseDiagram(xml) : null), [xml]);
+  const bounds = diagram && getDiagramBounds(diagram);
+
+  useEffect(() => {
+    if (isFocused && !ref.current?.contains(document.activeElement)) {
+      ref.current?.focus();
+    }
+  }, [isFocused]);
+
+  const setXML = (next: string) =>
+    onUpdateMetadata(block.id, { props: { ...block.props, xml: next } });
+
+  const importFile = async (file: File) => {
+    const imported = await readDiagramFile(await file.text());
+    if (!imported) {
+      setError(`${file.name} is not a draw.io diagram.`);
+      return;
+    }
+    setError(null);
+    setXML(imported);
+  };
+
+  const download = () => {
+    const blob = new Blob([toDrawioFile(xml)], { type: "application/xml" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = "diagram.drawio";
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href));
+  };
+
+  const closeEditor = () => {
+    setIsEditing(false);
+    ref.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The embedded editor handles its own keys
+    if (e.target !== e.currentTarget) return;
+    if (e.key === "Backspace" || e.key === "Delete") {
+      e.preventDefault();
+      onDeleteBlock(block.id);
+      return;
+    }
+    if (e.key === "ArrowUp" || e.key === "ArrowDown" || e.key === "Enter") {
+      onKeyDown(e, block.id);
+    }
+  };
+
+  const handleFileDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(true);
+  };
+
+  // A `.drawio` file dropped on the block replaces its diagram
+  const handleFileDrop = (e: React.DragEvent) => {
+    const file = Array.from(e.dataTransfer.files).find(isDiagramFile);
+    setIsDragOver(false);
+    if (!file) return;
+    e.preventDefault();
+    e.stopPropagation();
+    importFile(file);
+  };
+
+  const renderContent = () => {
+    if (isEditing) {
+      return (
+        <DiagramEditor
+          xml={xml}
+          onSave={(next) => {
+            setXML(next);
+            closeEditor();
+          }}
+          onCancel={closeEditor}
+        />
+      );
+    }
+    if (xml && !diagram) {
+      return (
+        <div className="media-status">This diagram could not be read.</div>
+      );
+    }
+    if (!bounds) {
+      return (
+        <div
+          className={`media-placeholder ${isDragOver ? "drag-over" : ""}`}
+          onClick={() => setIsEditing(true)}
+        >
+          <Workflow size={18} />
+          <span>Click to draw a diagram, or drop a .drawio file here</span>
+        </div>
+      );
+    }
+    return (
+      <div className="diagram-preview" onDoubleClick={() => setIsEditing(true)}>
+        <DiagramSVG
+          diagram={diagram!}
+          viewBox={{
+            x: bounds.x - PADDING,
+            y: bounds.y - PADDING,
+            width: bounds.width + PADDING * 2,
+            height: bounds.height + PADDING * 2,
+          }}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={ref}
+      data-block-id={block.id}
+      data-atomic
+      tabIndex={0}
+      className={`block block-diagram ${isFocused ? "focused" : ""}`}
+      onKeyDown={handleKeyDown}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelectionChange(block.id, 0);
+      }}
+      onDragOver={isEditing ? undefined : handleFileDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={isEditing ? undefined : handleFileDrop}
+    >
+      {isFocused && !isEditing && (
+        <div className="media-toolbar" onMouseDown={(e) => e.preventDefault()}>
+          <button
+            className="toolbar-btn"
+            title="Edit diagram"
+            onClick={() => setIsEditing(true)}
+          >
+            <Pencil size={14} />
+          </button>
+          <button
+            className="toolbar-btn"
+            title="Import .drawio file"
+            onClick={() => fileRef.current?.click()}
+          >
+            <Upload size={14} />
+          </button>
+          <button
+            className="toolbar-btn"
+            title="Download as .drawio"
+            disabled={!diagram}
+            onClick={download}
+          >
+            <Download size={14} />
+          </button>
+          <button
+            className="toolbar-btn"
+            title="Delete diagram"
+            onClick={() => onDeleteBlock(block.id)}
+          >
+            <Trash size={14} />
+          </button>
+        </div>
+      )}
+      {renderContent()}
+      {error && <div className="media-status">{error}</div>}
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".drawio,.xml"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) importFile(file);
+        }}
+      />
+    </div>
+  );
+}
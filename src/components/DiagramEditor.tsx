@@ -0,0 +1,410 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Circle,
+  Diamond,
+  RectangleHorizontal,
+  Spline,
+  Square,
+  Trash,
+  Type,
+  Undo2,
+} from "lucide-react";
+import DiagramSVG from "./DiagramSVG";
+import {
+  createEdge,
+  createShape,
+  getDiagramBounds,
+  parseDiagram,
+  removeShape,
+  serializeDiagram,
+  type Diagram,
+  type DiagramPoint,
+  type DiagramShape,
+  type ShapeKind,
+} from "../diagram";
+
+interface Props {
+  xml: string;
+  onSave: (xml: string) => void;
+  onCancel: () => void;
+}
+
+const GRID = 10;
+const MIN_SIZE = 20;
+// Room around the drawing to add and move shapes into
+const MARGIN = 200;
+const MIN_CANVAS = { width: 720, height: 360 };
+
+const snap = (value: number) => Math.round(value / GRID) * GRID;
+
+const SHAPE_BUTTONS: [ShapeKind, string, React.ElementType][] = [
+  ["rectangle", "Rectangle", Square],
+  ["rounded", "Rounded rectangle", RectangleHorizontal],
+  ["ellipse", "Ellipse", Circle],
+  ["rhombus", "Diamond", Diamond],
+  ["text", "Text", Type],
+];
+
+/**
+ * Edits a diagram on a copy of it: shapes are added from the toolbar,
+ * dragged to move, resized from their corner handle and joined with the
+ * connector tool. Nothing reaches the document until Done.
+ */
+export default function DiagramEditor({ xml, onSave, onCancel }: Props) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const labelRef = useRef<HTMLInputElement>(null);
+  // Set when the label field gains focus, so its typing is one undo step
+  const isNewLabelEditRef = useRef(false);
+
+  const [initial] = useState<Diagram>(
+    () => (xml && parseDiagram(xml)) || { shapes: [], edges: [] }
+  );
+  const [diagram, setDiagram] = useState(initial);
+  // Earlier states, for undo within the editor
+  const [past, setPast] = useState<Diagram[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // null while not connecting; "" until the first shape is picked
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+
+  // The canvas origin is fixed when the editor opens, so shapes do not jump
+  // as the drawing grows.
+  const [origin] = useState<DiagramPoint>(() => {
+    const bounds = getDiagramBounds(initial);
+    return {
+      x: Math.min(0, snap((bounds?.x ?? 0) - GRID * 2)),
+      y: Math.min(0, snap((bounds?.y ?? 0) - GRID * 2)),
+    };
+  });
+  const bounds = getDiagramBounds(diagram);
+  const viewBox = {
+    ...origin,
+    width: Math.max(
+      MIN_CANVAS.width,
+      (bounds ? bounds.x + bounds.width : 0) - origin.x + MARGIN
+    ),
+    height: Math.max(
+      MIN_CANVAS.height,
+      (bounds ? bounds.y + bounds.height : 0) - origin.y + MARGIN
+    ),
+  };
+
+  const selectedShape = diagram.shapes.find((s) => s.id === selectedId);
+  const selectedEdge = diagram.edges.find((e) => e.id === selectedId);
+  const selected = selectedShape ?? selectedEdge;
+
+  useEffect(() => {
+    rootRef.current?.focus();
+  }, []);
+
+  // Every change is undoable, except the steps of a drag after its first
+  const update = (next: Diagram, record = true) => {
+    if (record) setPast((states) => [...states, diagram]);
+    setDiagram(next);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setDiagram(past[past.length - 1]);
+    setPast((states) => states.slice(0, -1));
+  };
+
+  const updateShape = (
+    id: string,
+    changes: Partial<DiagramShape>,
+    base: Diagram,
+    record: boolean
+  ) =>
+    update(
+      {
+        ...base,
+        shapes: base.shapes.map((s) =>
+          s.id === id ? { ...s, ...changes } : s
+        ),
+      },
+      record
+    );
+
+  const toCanvas = (e: { clientX: number; clientY: number }) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: e.clientX - rect.left + origin.x,
+      y: e.clientY - rect.top + origin.y,
+    };
+  };
+
+  // Follows the pointer until it is released. The diagram as it was when
+  // the drag began is recorded once, so the whole drag is one undo step.
+  const drag = (
+    e: React.PointerEvent,
+    onMove: (dx: number, dy: number, isFirst: boolean) => void
+  ) => {
+    const start = toCanvas(e);
+    let isFirst = true;
+    const move = (event: PointerEvent) => {
+      const point = toCanvas(event);
+      onMove(point.x - start.x, point.y - start.y, isFirst);
+      isFirst = false;
+    };
+    const stop = () => {
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", stop);
+    };
+    window.addEventListener("pointermove", move);
+    window.addEventListener("pointerup", stop);
+  };
+
+  const handleShapePointerDown = (
+    e: React.PointerEvent,
+    shape: DiagramShape
+  ) => {
+    e.stopPropagation();
+    e.preventDefault();
+    rootRef.current?.focus();
+
+    if (connectFrom !== null) {
+      if (!connectFrom) {
+        setConnectFrom(shape.id);
+      } else if (connectFrom !== shape.id) {
+        const edge = createEdge(connectFrom, shape.id);
+        update({ ...diagram, edges: [...diagram.edges, edge] });
+        setSelectedId(edge.id);
+        setConnectFrom(null);
+      }
+      return;
+    }
+
+    setSelectedId(shape.id);
+    const base = diagram;
+    drag(e, (dx, dy, isFirst) =>
+      updateShape(
+        shape.id,
+        {
+          x: Math.max(origin.x, snap(shape.x + dx)),
+          y: Math.max(origin.y, snap(shape.y + dy)),
+        },
+        base,
+        isFirst
+      )
+    );
+  };
+
+  const handleResizePointerDown = (
+    e: React.PointerEvent,
+    shape: DiagramShape
+  ) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const base = diagram;
+    drag(e, (dx, dy, isFirst) =>
+      updateShape(
+        shape.id,
+        {
+          width: Math.max(MIN_SIZE, snap(shape.width + dx)),
+          height: Math.max(MIN_SIZE, snap(shape.height + dy)),
+        },
+        base,
+        isFirst
+      )
+    );
+  };
+
+  // New shapes go in the middle of the visible canvas, stepping down and
+  // right past any shape already there.
+  const addShape = (kind: ShapeKind) => {
+    const surface = surfaceRef.current?.parentElement;
+    const blank = createShape(kind, 0, 0);
+    let x = snap(
+      origin.x +
+        (surface ? surface.scrollLeft + surface.clientWidth / 2 : 0) -
+        blank.width / 2
+    );
+    let y = snap(origin.y + (surface?.scrollTop ?? 0) + GRID * 4);
+    while (diagram.shapes.some((s) => s.x === x && s.y === y)) {
+      x += GRID * 2;
+      y += GRID * 2;
+    }
+    const shape = { ...blank, x, y };
+    update({ ...diagram, shapes: [...diagram.shapes, shape] });
+    setSelectedId(shape.id);
+    setConnectFrom(null);
+  };
+
+  const deleteSelected = () => {
+    if (selectedShape) {
+      update(removeShape(diagram, selectedShape.id));
+    } else if (selectedEdge) {
+      update({
+        ...diagram,
+        edges: diagram.edges.filter((e) => e.id !== selectedEdge.id),
+      });
+    }
+    setSelectedId(null);
+  };
+
+  const setLabel = (label: string, record: boolean) => {
+    if (selectedShape) {
+      updateShape(selectedShape.id, { label }, diagram, record);
+    } else if (selectedEdge) {
+      update(
+        {
+          ...diagram,
+          edges: diagram.edges.map((e) =>
+            e.id === selectedEdge.id ? { ...e, label } : e
+          ),
+        },
+        record
+      );
+    }
+  };
+
+  const save = () => {
+    const next = serializeDiagram(diagram);
+    if (next === xml || past.length === 0) onCancel();
+    else onSave(next);
+  };
+
+  // Keys stay inside the editor: the document must not undo or delete
+  // blocks underneath it.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    const isTyping = e.target instanceof HTMLInputElement;
+    const mod = e.metaKey || e.ctrlKey;
+
+    if (mod && e.key === "Enter") {
+      e.preventDefault();
+      save();
+    } else if (mod && e.key.toLowerCase() === "z" && !isTyping) {
+      e.preventDefault();
+      undo();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      if (isTyping) rootRef.current?.focus();
+      else if (connectFrom !== null) setConnectFrom(null);
+      else setSelectedId(null);
+    } else if ((e.key === "Backspace" || e.key === "Delete") && !isTyping) {
+      e.preventDefault();
+      deleteSelected();
+    }
+  };
+
+  const hint =
+    connectFrom === null
+      ? null
+      : connectFrom
+      ? "Click the shape to connect to"
+      : "Click the shape to connect from";
+
+  return (
+    <div
+      ref={rootRef}
+      className="diagram-editor"
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="diagram-editor-toolbar">
+        {SHAPE_BUTTONS.map(([kind, title, Icon]) => (
+          <button
+            key={kind}
+            className="toolbar-btn"
+            title={`Add ${title.toLowerCase()}`}
+            onClick={() => addShape(kind)}
+          >
+            <Icon size={14} />
+          </button>
+        ))}
+        <button
+          className={`toolbar-btn ${connectFrom !== null ? "active" : ""}`}
+          title="Connect two shapes"
+          disabled={diagram.shapes.length < 2}
+          onClick={() => {
+            setConnectFrom((from) => (from === null ? "" : null));
+            setSelectedId(null);
+          }}
+        >
+          <Spline size={14} />
+        </button>
+        <div className="toolbar-divider" />
+        <input
+          ref={labelRef}
+          className="diagram-label-input"
+          placeholder={selected ? "Label" : "Select a shape to label it"}
+          disabled={!selected}
+          value={selected?.label ?? ""}
+          onFocus={() => (isNewLabelEditRef.current = true)}
+          onChange={(e) => {
+            setLabel(e.target.value, isNewLabelEditRef.current);
+            isNewLabelEditRef.current = false;
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.metaKey && !e.ctrlKey) {
+              e.preventDefault();
+              rootRef.current?.focus();
+            }
+          }}
+        />
+        <button
+          className="toolbar-btn"
+          title="Delete selection"
+          disabled={!selected}
+          onClick={deleteSelected}
+        >
+          <Trash size={14} />
+        </button>
+        <button
+          className="toolbar-btn"
+          title="Undo"
+          disabled={past.length === 0}
+          onClick={undo}
+        >
+          <Undo2 size={14} />
+        </button>
+        <div className="diagram-editor-actions">
+          <button className="comment-btn" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="comment-btn primary" onClick={save}>
+            Done
+          </button>
+        </div>
+      </div>
+
+      {hint && <div className="diagram-editor-hint">{hint}</div>}
+
+      <div className="diagram-editor-canvas">
+        <div
+          ref={surfaceRef}
+          className="diagram-editor-surface"
+          onPointerDown={() => {
+            setSelectedId(null);
+            rootRef.current?.focus();
+          }}
+        >
+          <DiagramSVG
+            diagram={diagram}
+            viewBox={viewBox}
+            selectedId={selectedId ?? connectFrom}
+            onShapePointerDown={handleShapePointerDown}
+            onShapeDoubleClick={() => labelRef.current?.focus()}
+            onEdgePointerDown={(e, edge) => {
+              e.stopPropagation();
+              rootRef.current?.focus();
+              if (connectFrom === null) setSelectedId(edge.id);
+            }}
+          >
+            {selectedShape && connectFrom === null && (
+              <rect
+                className="diagram-resize-handle"
+                x={selectedShape.x + selectedShape.width - 4}
+                y={selectedShape.y + selectedShape.height - 4}
+                width={8}
+                height={8}
+                onPointerDown={(e) => handleResizePointerDown(e, selectedShape)}
+              />
+            )}
+          </DiagramSVG>
+        </div>
+      </div>
+    </div>
+  );
+}
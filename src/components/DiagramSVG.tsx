@@ -0,0 +1,277 @@
+import React, { useId } from "react";
+import {
+  parseStyle,
+  routeEdge,
+  type Bounds,
+  type Diagram,
+  type DiagramEdge,
+  type DiagramPoint,
+  type DiagramShape,
+} from "../diagram";
+
+interface Props {
+  diagram: Diagram;
+  viewBox: Bounds;
+  selectedId?: string | null;
+  // Set by the editor; the preview is not interactive
+  onShapePointerDown?: (e: React.PointerEvent, shape: DiagramShape) => void;
+  onShapeDoubleClick?: (shape: DiagramShape) => void;
+  onEdgePointerDown?: (e: React.PointerEvent, edge: DiagramEdge) => void;
+  children?: React.ReactNode;
+}
+
+const DEFAULT_FONT_SIZE = 12;
+const LINE_HEIGHT = 1.2;
+
+// draw.io's light theme, used where a style leaves a colour out or writes
+// "default" for it
+const FILL = "#ffffff";
+const INK = "#000000";
+
+const color = (value: string | undefined, fallback: string) =>
+  value && value !== "default" ? value : fallback;
+
+// Splits a label into lines, breaking words that would overflow `width`
+// when the cell wraps its text. Glyph widths are estimated.
+function layoutLabel(label: string, width: number | null, fontSize: number) {
+  const lines = label.split("\n");
+  if (width === null) return lines;
+  const maxChars = Math.max(1, Math.floor(width / (fontSize * 0.6)));
+  return lines.flatMap((line) => {
+    const wrapped: string[] = [];
+    let current = "";
+    for (const word of line.split(" ")) {
+      const next = current ? `${current} ${word}` : word;
+      if (next.length > maxChars && current) {
+        wrapped.push(current);
+        current = word;
+      } else {
+        current = next;
+      }
+    }
+    return [...wrapped, current];
+  });
+}
+
+function Label({
+  text,
+  at,
+  style,
+  wrapWidth,
+}: {
+  text: string;
+  at: DiagramPoint;
+  style: Record<string, string>;
+  wrapWidth: number | null;
+}) {
+  if (!text) return null;
+  const fontSize = Number(style.fontSize) || DEFAULT_FONT_SIZE;
+  const fontStyle = Number(style.fontStyle) || 0;
+  const lines = layoutLabel(
+    text,
+    style.whiteSpace === "wrap" ? wrapWidth : null,
+    fontSize
+  );
+  const first = at.y - ((lines.length - 1) * fontSize * LINE_HEIGHT) / 2;
+  return (
+    <text
+      className="diagram-label"
+      x={at.x}
+      textAnchor="middle"
+      dominantBaseline="central"
+      fontSize={fontSize}
+      fontWeight={fontStyle & 1 ? "bold" : undefined}
+      fontStyle={fontStyle & 2 ? "italic" : undefined}
+      textDecoration={fontStyle & 4 ? "underline" : undefined}
+      fill={color(style.fontColor, INK)}
+    >
+      {lines.map((line, i) => (
+        <tspan key={i} x={at.x} y={first + i * fontSize * LINE_HEIGHT}>
+          {line}
+        </tspan>
+      ))}
+    </text>
+  );
+}
+
+function ShapeOutline({ shape }: { shape: DiagramShape }) {
+  const style = parseStyle(shape.style);
+  const isText = shape.kind === "text";
+  const paint = {
+    fill: color(style.fillColor, isText ? "none" : FILL),
+    stroke: color(style.strokeColor, isText ? "none" : INK),
+    strokeWidth: Number(style.strokeWidth) || undefined,
+    strokeDasharray: style.dashed === "1" ? "6 4" : undefined,
+  };
+  const { x, y, width, height } = shape;
+
+  if (shape.kind === "ellipse") {
+    return (
+      <ellipse
+        {...paint}
+        cx={x + width / 2}
+        cy={y + height / 2}
+        rx={width / 2}
+        ry={height / 2}
+      />
+    );
+  }
+  if (shape.kind === "rhombus") {
+    const points = [
+      [x + width / 2, y],
+      [x + width, y + height / 2],
+      [x + width / 2, y + height],
+      [x, y + height / 2],
+    ];
+    return <polygon {...paint} points={points.join(" ")} />;
+  }
+  // `arcSize` is a percentage of the shorter side
+  const radius =
+    shape.kind === "rounded"
+      ? (Math.min(width, height) * (Number(style.arcSize) || 15)) / 100
+      : 0;
+  return (
+    <rect {...paint} x={x} y={y} width={width} height={height} rx={radius} />
+  );
+}
+
+// The point halfway along a connector, where its label goes
+function midpoint(route: DiagramPoint[]): DiagramPoint {
+  const lengths = route
+    .slice(1)
+    .map((point, i) => Math.hypot(point.x - route[i].x, point.y - route[i].y));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        x: route[i].x + (route[i + 1].x - route[i].x) * t,
+        y: route[i].y + (route[i + 1].y - route[i].y) * t,
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return route[0];
+}
+
+/**
+ * Draws a diagram as SVG, one user unit per pixel. Used for the block's
+ * preview and, with the handlers set, as the editor's canvas.
+ */
+export default function DiagramSVG({
+  diagram,
+  viewBox,
+  selectedId,
+  onShapePointerDown,
+  onShapeDoubleClick,
+  onEdgePointerDown,
+  children,
+}: Props) {
+  // Marker ids must be unique across every diagram on the page
+  const arrowId = useId();
+
+  return (
+    <svg
+      className="diagram-svg"
+      width={viewBox.width}
+      height={viewBox.height}
+      viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+    >
+      <defs>
+        <marker
+          id={`${arrowId}-end`}
+          viewBox="0 0 10 10"
+          refX="9"
+          refY="5"
+          markerWidth="8"
+          markerHeight="8"
+          orient="auto"
+        >
+          <path d="M0,0 L10,5 L0,10 z" fill={INK} />
+        </marker>
+        <marker
+          id={`${arrowId}-start`}
+          viewBox="0 0 10 10"
+          refX="1"
+          refY="5"
+          markerWidth="8"
+          markerHeight="8"
+          orient="auto"
+        >
+          <path d="M10,0 L0,5 L10,10 z" fill={INK} />
+        </marker>
+      </defs>
+
+      {diagram.shapes.map((shape) => (
+        <g
+          key={shape.id}
+          className={`diagram-shape ${
+            selectedId === shape.id ? "selected" : ""
+          }`}
+          onPointerDown={
+            onShapePointerDown && ((e) => onShapePointerDown(e, shape))
+          }
+          onDoubleClick={
+            onShapeDoubleClick && (() => onShapeDoubleClick(shape))
+          }
+        >
+          <ShapeOutline shape={shape} />
+          <Label
+            text={shape.label}
+            at={{ x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 }}
+            style={parseStyle(shape.style)}
+            wrapWidth={shape.width - 8}
+          />
+        </g>
+      ))}
+
+      {diagram.edges.map((edge) => {
+        const route = routeEdge(diagram, edge);
+        if (route.length < 2) return null;
+        const style = parseStyle(edge.style);
+        const points = route.map((point) => `${point.x},${point.y}`).join(" ");
+        const hasArrow = (arrow: string | undefined) =>
+          arrow !== undefined && arrow !== "none";
+        return (
+          <g
+            key={edge.id}
+            className={`diagram-edge ${
+              selectedId === edge.id ? "selected" : ""
+            }`}
+            onPointerDown={
+              onEdgePointerDown && ((e) => onEdgePointerDown(e, edge))
+            }
+          >
+            <polyline
+              points={points}
+              fill="none"
+              stroke={color(style.strokeColor, INK)}
+              strokeWidth={Number(style.strokeWidth) || undefined}
+              strokeDasharray={style.dashed === "1" ? "6 4" : undefined}
+              // Connectors have an arrow at the end unless told otherwise
+              markerEnd={
+                style.endArrow !== "none" ? `url(#${arrowId}-end)` : undefined
+              }
+              markerStart={
+                hasArrow(style.startArrow)
+                  ? `url(#${arrowId}-start)`
+                  : undefined
+              }
+            />
+            {onEdgePointerDown && (
+              <polyline className="diagram-edge-hit" points={points} />
+            )}
+            <Label
+              text={edge.label}
+              at={midpoint(route)}
+              style={style}
+              wrapWidth={null}
+            />
+          </g>
+        );
+      })}
+
+      {children}
+    </svg>
+  );
+}
@@ -39,6 +39,7 @@ export default function DividerBlock({
   return (
     <div
       ref={ref}
+      data-block-id={block.id}
       tabIndex={0}
       className="block block-divider"
       onKeyDown={handleKeyDown}
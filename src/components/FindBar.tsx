@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  CaseSensitive,
+  Regex,
+  WholeWord,
+  X,
+} from "lucide-react";
+import type { Block } from "../types";
+import type { Operation } from "../transactions";
+import {
+  buildSearchPattern,
+  clearSearchHighlights,
+  findMatches,
+  highlightMatches,
+  replaceMatchesOperations,
+  type SearchMatch,
+  type SearchOptions,
+} from "../search";
+
+interface Props {
+  blocks: Block[];
+  showReplace: boolean;
+  // Set in suggesting mode: replacements are proposed by this author
+  suggestAs?: string;
+  // Bumped by the shortcuts so an open bar takes focus again
+  focusRequest: number;
+  onToggleReplace: () => void;
+  onReplace: (ops: Operation[]) => void;
+  onReveal: (match: SearchMatch) => void;
+  onClose: (current: SearchMatch | null) => void;
+}
+
+export default function FindBar({
+  blocks,
+  showReplace,
+  suggestAs,
+  focusRequest,
+  onToggleReplace,
+  onReplace,
+  onReveal,
+  onClose,
+}: Props) {
+  const [options, setOptions] = useState<SearchOptions>({
+    query: "",
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+  });
+  const [replacement, setReplacement] = useState("");
+  const [index, setIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const pattern = useMemo(() => buildSearchPattern(options), [options]);
+  const matches = useMemo(
+    () => (pattern ? findMatches(blocks, pattern) : []),
+    [blocks, pattern]
+  );
+  // Replacing shrinks the list, so the index is clamped rather than reset
+  const current =
+    matches.length > 0 ? matches[Math.min(index, matches.length - 1)] : null;
+  const currentIndex = current ? matches.indexOf(current) : -1;
+  const isInvalid = options.regex && options.query !== "" && !pattern;
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest]);
+
+  useEffect(() => {
+    highlightMatches(matches, current);
+  }, [matches, current]);
+
+  useEffect(() => clearSearchHighlights, []);
+
+  const updateOptions = (changes: Partial<SearchOptions>) => {
+    setOptions((prev) => ({ ...prev, ...changes }));
+    setIndex(0);
+  };
+
+  const go = (step: number) => {
+    if (matches.length === 0) return;
+    const next = (currentIndex + step + matches.length) % matches.length;
+    setIndex(next);
+    onReveal(matches[next]);
+  };
+
+  const replace = (targets: SearchMatch[]) => {
+    if (targets.length === 0) return;
+    onReplace(
+      replaceMatchesOperations(blocks, targets, options, replacement, suggestAs)
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, isReplace: boolean) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose(current);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (!isReplace) go(e.shiftKey ? -1 : 1);
+      else if (e.metaKey || e.ctrlKey) replace(matches);
+      else if (current) replace([current]);
+    }
+  };
+
+  const toggle = (
+    key: "caseSensitive" | "wholeWord" | "regex",
+    title: string,
+    icon: React.ReactNode
+  ) => (
+    <button
+      className={`toolbar-btn ${options[key] ? "active" : ""}`}
+      title={title}
+      onClick={() => updateOptions({ [key]: !options[key] })}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="find-bar">
+      <button
+        className="toolbar-btn"
+        title={showReplace ? "Hide replace" : "Show replace"}
+        onClick={onToggleReplace}
+      >
+        {showReplace ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+      </button>
+
+      <div className="find-bar-fields">
+        <div className="find-bar-row">
+          <input
+            ref={inputRef}
+            className={isInvalid ? "invalid" : ""}
+            value={options.query}
+            placeholder="Find"
+            spellCheck={false}
+            onChange={(e) => updateOptions({ query: e.target.value })}
+            onKeyDown={(e) => handleKeyDown(e, false)}
+          />
+          {toggle("caseSensitive", "Match case", <CaseSensitive size={14} />)}
+          {toggle("wholeWord", "Whole word", <WholeWord size={14} />)}
+          {toggle("regex", "Regular expression", <Regex size={14} />)}
+          <span className="find-bar-count">
+            {isInvalid
+              ? "Invalid"
+              : matches.length === 0
+              ? "No results"
+              : `${currentIndex + 1} of ${matches.length}`}
+          </span>
+          <button
+            className="toolbar-btn"
+            title="Previous match (Shift+Enter)"
+            disabled={matches.length === 0}
+            onClick={() => go(-1)}
+          >
+            <ChevronUp size={14} />
+          </button>
+          <button
+            className="toolbar-btn"
+            title="Next match (Enter)"
+            disabled={matches.length === 0}
+            onClick={() => go(1)}
+          >
+            <ChevronDown size={14} />
+          </button>
+          <button
+            className="toolbar-btn"
+            title="Close (Esc)"
+            onClick={() => onClose(current)}
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        {showReplace && (
+          <div className="find-bar-row">
+            <input
+              value={replacement}
+              placeholder="Replace"
+              spellCheck={false}
+              onChange={(e) => setReplacement(e.target.value)}
+              onKeyDown={(e) => handleKeyDown(e, true)}
+            />
+            <button
+              className="comment-btn"
+              disabled={!current}
+              onClick={() => current && replace([current])}
+            >
+              Replace
+            </button>
+            <button
+              className="comment-btn"
+              disabled={matches.length === 0}
+              onClick={() => replace(matches)}
+            >
+              Replace all
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
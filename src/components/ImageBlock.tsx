@@ -0,0 +1,347 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  ImageIcon,
+  RefreshCw,
+  Trash,
+  Type,
+} from "lucide-react";
+import type { Block } from "../types";
+import { loadImageURL, saveImage } from "../storage";
+import { readImageFiles } from "../clipboard";
+
+interface Props {
+  block: Block;
+  isFocused: boolean;
+  onUpdateMetadata: (id: string, meta: Partial<Block>) => void;
+  onSelectionChange: (id: string, offset: number) => void;
+  onDeleteBlock: (id: string) => void;
+  onKeyDown: (e: React.KeyboardEvent, id: string) => void;
+}
+
+const MIN_WIDTH = 80;
+
+const FLEX_ALIGN = {
+  left: "flex-start",
+  center: "center",
+  right: "flex-end",
+} as const;
+
+// A text field that edits a prop. Changes are kept locally and saved once
+// on blur, so typing does not create an undo step per character.
+function PropInput({
+  value,
+  placeholder,
+  className,
+  autoFocus,
+  onSave,
+  onDone,
+}: {
+  value: string;
+  placeholder: string;
+  className: string;
+  autoFocus?: boolean;
+  onSave: (value: string) => void;
+  onDone: () => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      className={className}
+      value={draft ?? value}
+      placeholder={placeholder}
+      autoFocus={autoFocus}
+      onFocus={() => setDraft(value)}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null && draft !== value) onSave(draft);
+        setDraft(null);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" || e.key === "Escape") {
+          e.preventDefault();
+          onDone();
+        }
+      }}
+    />
+  );
+}
+
+export default function ImageBlock({
+  block,
+  isFocused,
+  onUpdateMetadata,
+  onSelectionChange,
+  onDeleteBlock,
+  onKeyDown,
+}: Props) {
+  const ref = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { imageId, src, width, alt = "", caption = "" } = block.props;
+  const align = block.props.align || "left";
+
+  // Object URL of the stored blob, tagged with the id it was loaded for
+  const [stored, setStored] = useState<{
+    id: string;
+    url: string | null;
+  } | null>(null);
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+  const [resizeWidth, setResizeWidth] = useState<number | null>(null);
+  const [isEditingAlt, setIsEditingAlt] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasImage = Boolean(imageId || src);
+  const isLoading = Boolean(imageId) && !src && stored?.id !== imageId;
+  const url = src ?? (stored && stored.id === imageId ? stored.url : null);
+
+  useEffect(() => {
+    if (isFocused && !ref.current?.contains(document.activeElement)) {
+      ref.current?.focus();
+    }
+  }, [isFocused]);
+
+  useEffect(() => {
+    if (!imageId) return;
+    let cancelled = false;
+    loadImageURL(imageId)
+      .catch((err) => {
+        console.warn("Could not load image", err);
+        return null;
+      })
+      .then((url) => {
+        if (!cancelled) setStored({ id: imageId, url });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageId]);
+
+  const updateProps = (changes: Partial<Block["props"]>) =>
+    onUpdateMetadata(block.id, { props: { ...block.props, ...changes } });
+
+  const upload = async (file: File) => {
+    try {
+      const id = await saveImage(file);
+      setError(null);
+      updateProps({ imageId: id, src: undefined, width: undefined });
+    } catch (err) {
+      console.warn("Could not store image", err);
+      setError("The image could not be saved in this browser.");
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keys typed into the caption and alt text fields are theirs
+    if (e.target !== e.currentTarget) return;
+    if (e.key === "Backspace" || e.key === "Delete") {
+      e.preventDefault();
+      onDeleteBlock(block.id);
+      return;
+    }
+    if (e.key === "ArrowUp" || e.key === "ArrowDown" || e.key === "Enter") {
+      onKeyDown(e, block.id);
+    }
+  };
+
+  // Dragging a handle resizes from that side. Centered images grow on both
+  // sides, so they follow the pointer at twice the rate.
+  const startResize = (e: React.PointerEvent, side: -1 | 1) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const frame = e.currentTarget.parentElement;
+    const maxWidth = ref.current?.clientWidth;
+    if (!frame || !maxWidth) return;
+
+    const startX = e.clientX;
+    const startWidth = frame.getBoundingClientRect().width;
+    const rate = align === "center" ? 2 : 1;
+    let latest: number | null = null;
+
+    const onMove = (move: PointerEvent) => {
+      const next = startWidth + side * rate * (move.clientX - startX);
+      latest = Math.round(Math.min(maxWidth, Math.max(MIN_WIDTH, next)));
+      setResizeWidth(latest);
+    };
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      setResizeWidth(null);
+      if (latest !== null) updateProps({ width: latest });
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+  };
+
+  const handleFileDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(true);
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    const [file] = readImageFiles(e.dataTransfer);
+    setIsDragOver(false);
+    if (!file) return;
+    e.preventDefault();
+    e.stopPropagation();
+    upload(file);
+  };
+
+  const focusBlock = () => ref.current?.focus();
+
+  const renderToolbar = () => (
+    <div className="media-toolbar" onMouseDown={(e) => e.preventDefault()}>
+      {(
+        [
+          ["left", AlignLeft],
+          ["center", AlignCenter],
+          ["right", AlignRight],
+        ] as const
+      ).map(([value, Icon]) => (
+        <button
+          key={value}
+          className={`toolbar-btn ${align === value ? "active" : ""}`}
+          title={`Align ${value}`}
+          onClick={() => updateProps({ align: value })}
+        >
+          <Icon size={14} />
+        </button>
+      ))}
+      <div className="toolbar-divider" />
+      <button
+        className={`toolbar-btn ${isEditingAlt ? "active" : ""}`}
+        title="Alt text"
+        onClick={() => setIsEditingAlt((on) => !on)}
+      >
+        <Type size={14} />
+      </button>
+      <button
+        className="toolbar-btn"
+        title="Replace image"
+        onClick={() => fileRef.current?.click()}
+      >
+        <RefreshCw size={14} />
+      </button>
+      <button
+        className="toolbar-btn"
+        title="Delete image"
+        onClick={() => onDeleteBlock(block.id)}
+      >
+        <Trash size={14} />
+      </button>
+    </div>
+  );
+
+  const renderImage = () => {
+    if (isLoading) return <div className="media-status">Loading image…</div>;
+    if (!url || failedSrc === url) {
+      return (
+        <div className="media-status">
+          {src
+            ? "The image could not be loaded."
+            : "This image is not stored in this browser."}
+        </div>
+      );
+    }
+    return (
+      <img
+        src={url}
+        alt={alt}
+        draggable={false}
+        onError={() => setFailedSrc(url)}
+      />
+    );
+  };
+
+  return (
+    <div
+      ref={ref}
+      data-block-id={block.id}
+      data-atomic
+      tabIndex={0}
+      className={`block block-image ${isFocused ? "focused" : ""}`}
+      style={{ alignItems: FLEX_ALIGN[align] }}
+      onKeyDown={handleKeyDown}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelectionChange(block.id, 0);
+      }}
+    >
+      {hasImage ? (
+        <figure
+          className="image-figure"
+          style={{
+            width: resizeWidth ?? width ?? "fit-content",
+          }}
+        >
+          <div className="image-frame">
+            {renderImage()}
+            {isFocused && renderToolbar()}
+            {isFocused && url && (
+              <>
+                <div
+                  className="image-resize-handle left"
+                  onPointerDown={(e) => startResize(e, -1)}
+                />
+                <div
+                  className="image-resize-handle right"
+                  onPointerDown={(e) => startResize(e, 1)}
+                />
+              </>
+            )}
+          </div>
+          {isEditingAlt && (
+            <PropInput
+              className="image-alt-input"
+              value={alt}
+              placeholder="Describe the image for screen readers"
+              autoFocus
+              onSave={(value) => updateProps({ alt: value })}
+              onDone={() => {
+                setIsEditingAlt(false);
+                focusBlock();
+              }}
+            />
+          )}
+          {(caption || isFocused) && (
+            <PropInput
+              className="image-caption"
+              value={caption}
+              placeholder="Add a caption"
+              onSave={(value) => updateProps({ caption: value })}
+              onDone={focusBlock}
+            />
+          )}
+        </figure>
+      ) : (
+        <div
+          className={`media-placeholder ${isDragOver ? "drag-over" : ""}`}
+          onDragOver={handleFileDragOver}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleFileDrop}
+          onClick={() => fileRef.current?.click()}
+        >
+          <ImageIcon size={18} />
+          <span>Click to upload an image, or drop one here</span>
+        </div>
+      )}
+      {error && <div className="media-status">{error}</div>}
+      <input
+        ref={fileRef}
+        type="file"
+        accept="image/*"
+        hidden
+        onChange={(e) => {
+          const [file] = readImageFiles(e.target);
+          e.target.value = "";
+          if (file) upload(file);
+        }}
+      />
+    </div>
+  );
+}
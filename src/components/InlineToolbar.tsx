@@ -17,22 +17,50 @@ import {
   Code,
   List,
   ListOrdered,
+  ListTodo,
   Quote,
+  Highlighter,
+  Ban,
+  MessageSquarePlus,
 } from "lucide-react";
-import type { BlockType, MarkType } from "../types";
+import type { BlockType, HighlightColor, MarkType } from "../types";
+import { HIGHLIGHT_COLORS } from "../colors";
 
 interface Props {
   onConvertBlock: (type: string) => void;
   onToggleMark: (mark: MarkType) => void;
   onUpdateBlockAlign: (align: "left" | "center" | "right") => void;
+  onLink: () => void;
+  onComment: () => void;
+  onHighlight: (color: HighlightColor | null) => void;
+  lastHighlight: HighlightColor;
   currentType: BlockType;
   onPreview: (type: BlockType | null) => void;
 }
 
+const Button = ({ icon: Icon, onClick, active }: any) => (
+  <button
+    className={`toolbar-btn ${active ? "active" : ""}`}
+    onMouseDown={(e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      onClick();
+    }}
+  >
+    <Icon size={16} />
+  </button>
+);
+
+const Divider = () => <div className="toolbar-divider" />;
+
 export default function InlineToolbar({
   onConvertBlock,
   onToggleMark,
   onUpdateBlockAlign,
+  onLink,
+  onComment,
+  onHighlight,
+  lastHighlight,
   currentType,
   onPreview,
 }: Props) {
@@ -41,6 +69,7 @@ export default function InlineToolbar({
     left: number;
   } | null>(null);
   const [showTypeMenu, setShowTypeMenu] = useState(false);
+  const [showHighlightMenu, setShowHighlightMenu] = useState(false);
 
   useEffect(() => {
     function handleSelectionChange() {
@@ -48,6 +77,7 @@ export default function InlineToolbar({
       if (!selection || selection.isCollapsed) {
         setPosition(null);
         setShowTypeMenu(false);
+        setShowHighlightMenu(false);
         return;
       }
 
@@ -59,7 +89,7 @@ export default function InlineToolbar({
         return;
       }
 
-      const TOOLBAR_WIDTH = 380;
+      const TOOLBAR_WIDTH = 440;
       const GAP = 12;
       const VIEWPORT_WIDTH = window.innerWidth;
 
@@ -95,24 +125,10 @@ export default function InlineToolbar({
 
   if (!position) return null;
 
-  const Button = ({ icon: Icon, onClick, active }: any) => (
-    <button
-      className={`toolbar-btn ${active ? "active" : ""}`}
-      onMouseDown={(e) => {
-        e.preventDefault();
-        e.stopPropagation();
-        onClick();
-      }}
-    >
-      <Icon size={16} />
-    </button>
-  );
-
-  const Divider = () => <div className="toolbar-divider" />;
-
   return (
     <div
       className="inline-toolbar"
+      contentEditable={false}
       style={{
         top: position.top,
         left: position.left,
@@ -181,6 +197,13 @@ export default function InlineToolbar({
             >
               <ListOrdered size={14} /> <span>Numbered List</span>
             </div>
+            <div
+              className="dropdown-item"
+              onMouseDown={() => onConvertBlock("todo")}
+              onMouseEnter={() => onPreview("todo")}
+            >
+              <ListTodo size={14} /> <span>To-do List</span>
+            </div>
             <div
               className="dropdown-item"
               onMouseDown={() => onConvertBlock("quote")}
@@ -207,6 +230,52 @@ export default function InlineToolbar({
         <Button icon={Underline} onClick={() => onToggleMark("underline")} />
         <Button icon={Strikethrough} onClick={() => onToggleMark("strike")} />
         <Button icon={Code} onClick={() => onToggleMark("code")} />
+        <button
+          className="toolbar-btn"
+          title="Highlight (Cmd+Shift+Y)"
+          onMouseDown={(e) => {
+            e.preventDefault();
+            setShowHighlightMenu(!showHighlightMenu);
+          }}
+        >
+          <Highlighter
+            size={16}
+            style={{ color: HIGHLIGHT_COLORS[lastHighlight] }}
+          />
+        </button>
+
+        {showHighlightMenu && (
+          <div className="toolbar-dropdown highlight-palette">
+            {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map(
+              (color) => (
+                <div
+                  key={color}
+                  className="highlight-swatch"
+                  title={color}
+                  style={{ backgroundColor: HIGHLIGHT_COLORS[color] }}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    onHighlight(color);
+                    setShowHighlightMenu(false);
+                  }}
+                >
+                  {color === lastHighlight && <Check size={12} />}
+                </div>
+              )
+            )}
+            <div
+              className="highlight-swatch"
+              title="No highlight"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onHighlight(null);
+                setShowHighlightMenu(false);
+              }}
+            >
+              <Ban size={12} />
+            </div>
+          </div>
+        )}
       </div>
 
       <Divider />
@@ -223,7 +292,8 @@ export default function InlineToolbar({
       <Divider />
 
       <div className="toolbar-section">
-        <Button icon={LinkIcon} onClick={() => alert("Link coming soon")} />
+        <Button icon={LinkIcon} onClick={onLink} />
+        <Button icon={MessageSquarePlus} onClick={onComment} />
       </div>
     </div>
   );
@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, ExternalLink, Link as LinkIcon, Unlink } from "lucide-react";
+
+interface Props {
+  position: { x: number; y: number };
+  initialHref: string;
+  onApply: (href: string) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+export default function LinkPopover({
+  position,
+  initialHref,
+  onApply,
+  onRemove,
+  onClose,
+}: Props) {
+  const [href, setHref] = useState(initialHref);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  // Click outside dismisses without changing the link
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (
+        popoverRef.current &&
+        !popoverRef.current.contains(e.target as Node)
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener("mousedown", handler);
+    return () => document.removeEventListener("mousedown", handler);
+  }, [onClose]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (href.trim()) onApply(href);
+      else if (initialHref) onRemove();
+      else onClose();
+    }
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      ref={popoverRef}
+      className="link-popover"
+      style={{ top: position.y, left: position.x }}
+    >
+      <LinkIcon size={14} className="link-popover-icon" />
+      <input
+        ref={inputRef}
+        value={href}
+        placeholder="Paste or type a link..."
+        onChange={(e) => setHref(e.target.value)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+      />
+      <button
+        className="toolbar-btn"
+        title="Apply"
+        disabled={!href.trim()}
+        onClick={() => onApply(href)}
+      >
+        <Check size={14} />
+      </button>
+      {initialHref && (
+        <>
+          <button
+            className="toolbar-btn"
+            title="Open link"
+            onClick={() =>
+              window.open(initialHref, "_blank", "noopener,noreferrer")
+            }
+          >
+            <ExternalLink size={14} />
+          </button>
+          <button
+            className="toolbar-btn"
+            title="Remove link"
+            onClick={onRemove}
+          >
+            <Unlink size={14} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useLayoutEffect, useRef } from "react";
+import type { InlineNode } from "../types";
+import type { PeerDecoration } from "../presence";
+import { findDOMPosition } from "../utils";
+
+interface Props {
+  blockId: string;
+  decorations: PeerDecoration[];
+  // Only used to redraw when the text (and so the layout) changes
+  content: InlineNode[];
+}
+
+// Measures where a decoration falls inside the block's editable root.
+function measure(root: HTMLElement, start: number, end: number) {
+  const range = document.createRange();
+  const from = findDOMPosition(root, start);
+  const to = findDOMPosition(root, end);
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, to.offset);
+
+  const highlights = start < end ? Array.from(range.getClientRects()) : [];
+  range.collapse(false);
+  // An empty block has no text to measure: use the start of the root
+  const caret =
+    range.getClientRects()[0] ?? root.getBoundingClientRect().toJSON();
+  const lineHeight = parseFloat(getComputedStyle(root).lineHeight) || 20;
+  return {
+    highlights,
+    caret: {
+      left: caret.left,
+      top: caret.top,
+      height: caret.height || lineHeight,
+    },
+  };
+}
+
+function createBox(className: string, color: string, rect: Partial<DOMRect>) {
+  const box = document.createElement("div");
+  box.className = className;
+  box.style.left = `${rect.left}px`;
+  box.style.top = `${rect.top}px`;
+  if (rect.width !== undefined) box.style.width = `${rect.width}px`;
+  box.style.height = `${rect.height}px`;
+  box.style.setProperty("--peer-color", color);
+  return box;
+}
+
+// Collaborators' carets, selections and name labels for one block. They are
+// drawn into a layer beside the editable root, never inside it, so the
+// text and the local caret are left alone.
+export default function PresenceOverlay({
+  blockId,
+  decorations,
+  content,
+}: Props) {
+  const layerRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const layer = layerRef.current;
+    const root = layer?.parentElement?.querySelector<HTMLElement>(
+      `[data-block-id="${blockId}"]`
+    );
+    if (!layer || !root) return;
+
+    const draw = () => {
+      const origin = layer.getBoundingClientRect();
+      const boxes = decorations.flatMap(({ peer, start, end, hasCaret }) => {
+        const { highlights, caret } = measure(root, start, end);
+        const drawn = highlights.map((rect) =>
+          createBox("presence-highlight", peer.color, {
+            left: rect.left - origin.left,
+            top: rect.top - origin.top,
+            width: rect.width,
+            height: rect.height,
+          })
+        );
+        if (hasCaret) {
+          const caretBox = createBox("presence-caret", peer.color, {
+            left: caret.left - origin.left,
+            top: caret.top - origin.top,
+            height: caret.height,
+          });
+          const label = document.createElement("span");
+          label.className = "presence-label";
+          label.textContent = peer.name;
+          caretBox.append(label);
+          drawn.push(caretBox);
+        }
+        return drawn;
+      });
+      layer.replaceChildren(...boxes);
+    };
+
+    draw();
+    window.addEventListener("resize", draw);
+    return () => window.removeEventListener("resize", draw);
+  }, [blockId, decorations, content]);
+
+  return (
+    <div
+      ref={layerRef}
+      className="presence-layer"
+      contentEditable={false}
+      aria-hidden
+    />
+  );
+}
@@ -1,4 +1,5 @@
 import React from "react";
+import { Check, ChevronRight } from "lucide-react";
 import BlockContent from "./BlockContent";
 import type { Block, BlockType, InlineNode } from "../types";
 import { useBlockLogic } from "../hooks/useBlockLogic";
@@ -9,8 +10,10 @@ interface Props {
   isFocused: boolean;
   caretOffset: number | null;
   onUpdateContent: (id: string, content: InlineNode[]) => void;
+  onUpdateMetadata: (id: string, meta: Partial<Block>) => void;
   onSelectionChange: (id: string, offset: number) => void;
   onKeyDown: (e: React.KeyboardEvent, id: string) => void;
+  onPaste: (e: React.ClipboardEvent, id: string) => void;
 
   // New props for Preview
   previewType?: BlockType | null;
@@ -23,8 +26,10 @@ export default function StandardBlock(props: Props) {
     isFocused,
     caretOffset,
     onUpdateContent,
+    onUpdateMetadata,
     onSelectionChange,
     onKeyDown,
+    onPaste,
     previewType,
   } = props;
 
@@ -77,9 +82,21 @@ export default function StandardBlock(props: Props) {
   }
 
   if (displayType === "quote") placeholder = "Quote";
+  if (displayType === "toggle") placeholder = "Toggle";
   if (displayType === "bullet-list" || displayType === "numbered-list")
     placeholder = "List";
 
+  // --- TO-DO STATE ---
+  const isTodo = displayType === "todo";
+  const isChecked = isTodo && Boolean(block.props.checked);
+  if (isTodo) placeholder = "To-do";
+  if (isChecked) wrapperClass += " checked";
+  // Progress counts the direct sub-tasks; deeper ones show on their parent
+  const subtasks = isTodo
+    ? block.children.filter((c) => c.type === "todo")
+    : [];
+  const done = subtasks.filter((c) => c.props.checked).length;
+
   // --- LIST MARKER LOGIC ---
   const isList =
     displayType === "bullet-list" || displayType === "numbered-list";
@@ -110,15 +127,49 @@ export default function StandardBlock(props: Props) {
         </div>
       )}
 
+      {/* Disclosure chevron for Toggles */}
+      {displayType === "toggle" && (
+        <button
+          contentEditable={false}
+          className={`toggle-chevron ${block.isOpen ? "open" : ""}`}
+          title={block.isOpen ? "Collapse" : "Expand"}
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onUpdateMetadata(block.id, { isOpen: !block.isOpen })}
+        >
+          <ChevronRight size={16} />
+        </button>
+      )}
+
+      {/* Checkbox for To-dos */}
+      {isTodo && (
+        <button
+          contentEditable={false}
+          className={`todo-checkbox ${isChecked ? "checked" : ""}`}
+          role="checkbox"
+          aria-checked={isChecked}
+          title={isChecked ? "Mark as not done" : "Mark as done"}
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() =>
+            onUpdateMetadata(block.id, {
+              props: { ...block.props, checked: !isChecked },
+            })
+          }
+        >
+          {isChecked && <Check size={12} strokeWidth={3} />}
+        </button>
+      )}
+
       {/* Editable Content with Transition Class */}
       <div
         key={renderKey}
         ref={contentRef}
+        data-block-id={block.id}
         className={wrapperClass} // CSS Transition handles animation here
         contentEditable
         suppressContentEditableWarning
         onInput={handleInput}
         onKeyDown={(e) => onKeyDown(e, block.id)}
+        onPaste={(e) => onPaste(e, block.id)}
         onMouseUp={() => {
           const sel = window.getSelection();
           if (sel?.anchorNode) onSelectionChange(block.id, sel.anchorOffset);
@@ -137,6 +188,21 @@ export default function StandardBlock(props: Props) {
       >
         <BlockContent content={block.content} />
       </div>
+
+      {subtasks.length > 0 && (
+        <div
+          contentEditable={false}
+          className={`todo-progress ${
+            done === subtasks.length ? "complete" : ""
+          }`}
+          title={`${done} of ${subtasks.length} sub-tasks done`}
+        >
+          <div className="todo-progress-bar">
+            <div style={{ width: `${(done / subtasks.length) * 100}%` }} />
+          </div>
+          {done}/{subtasks.length}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,69 @@
+import { Check, X } from "lucide-react";
+import type { Suggestion } from "../suggestions";
+
+interface Props {
+  suggestions: Suggestion[];
+  onResolve: (id: string | null, accept: boolean) => void;
+  onSelect: (suggestion: Suggestion) => void;
+}
+
+const describe = ({ kind, isBlock }: Suggestion) => {
+  const verb = kind === "insert" ? "Add" : "Delete";
+  return isBlock ? `${verb} block` : verb;
+};
+
+export default function SuggestionPanel({
+  suggestions,
+  onResolve,
+  onSelect,
+}: Props) {
+  return (
+    <section className="suggestion-panel">
+      <div className="suggestion-panel-header">
+        <span>Suggestions ({suggestions.length})</span>
+        <button className="comment-btn" onClick={() => onResolve(null, true)}>
+          Accept all
+        </button>
+        <button className="comment-btn" onClick={() => onResolve(null, false)}>
+          Reject all
+        </button>
+      </div>
+
+      {suggestions.map((suggestion) => (
+        <div
+          key={suggestion.id}
+          className={`suggestion-item ${suggestion.kind}`}
+          onClick={() => onSelect(suggestion)}
+        >
+          <div className="suggestion-summary">
+            <span className="comment-author">{suggestion.author}</span>
+            <span>{describe(suggestion)}</span>
+            {suggestion.text && (
+              <span className="suggestion-text">{suggestion.text}</span>
+            )}
+          </div>
+          <button
+            className="toolbar-btn"
+            title="Accept"
+            onClick={(e) => {
+              e.stopPropagation();
+              onResolve(suggestion.id, true);
+            }}
+          >
+            <Check size={14} />
+          </button>
+          <button
+            className="toolbar-btn"
+            title="Reject"
+            onClick={(e) => {
+              e.stopPropagation();
+              onResolve(suggestion.id, false);
+            }}
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+    </section>
+  );
+}
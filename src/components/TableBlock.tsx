@@ -0,0 +1,481 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  ArrowDown,
+  ArrowLeft,
+  ArrowRight,
+  ArrowUp,
+  BetweenHorizontalEnd,
+  BetweenHorizontalStart,
+  BetweenVerticalEnd,
+  BetweenVerticalStart,
+  PanelTop,
+  Trash,
+  X,
+} from "lucide-react";
+import BlockContent from "./BlockContent";
+import type { Block, InlineNode, MarkType, TableAlign } from "../types";
+import {
+  findDOMPosition,
+  getCaretOffset,
+  getSelectionOffsets,
+  getTextLength,
+  parseDOMToContent,
+  setCaretOffset,
+  toggleMarkInRange,
+  uid,
+} from "../utils";
+import { readClipboard } from "../clipboard";
+import {
+  columnCount,
+  getTable,
+  insertColumn,
+  insertRow,
+  moveColumn,
+  moveRow,
+  pasteCells,
+  removeColumn,
+  removeRow,
+  setColumnAlign,
+  tableProps,
+  type Table,
+} from "../table";
+
+interface Props {
+  block: Block;
+  isFocused: boolean;
+  onUpdateMetadata: (id: string, meta: Partial<Block>) => void;
+  onUpdateCell: (
+    id: string,
+    row: number,
+    column: number,
+    content: InlineNode[]
+  ) => void;
+  onSelectionChange: (id: string, offset: number) => void;
+  onDeleteBlock: (id: string) => void;
+  onKeyDown: (e: React.KeyboardEvent, id: string) => void;
+}
+
+interface CellPosition {
+  row: number;
+  column: number;
+}
+
+const FORMAT_KEYS: Record<string, MarkType> = {
+  b: "bold",
+  i: "italic",
+  u: "underline",
+  e: "code",
+};
+
+// Toolbar buttons keep focus (and the caret) in the active cell
+const ToolButton = ({
+  title,
+  onClick,
+  isActive,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  isActive?: boolean;
+  children: React.ReactNode;
+}) => (
+  <button
+    className={`toolbar-btn ${isActive ? "active" : ""}`}
+    title={title}
+    onMouseDown={(e) => e.preventDefault()}
+    onClick={onClick}
+  >
+    {children}
+  </button>
+);
+
+// One editable cell. Like text blocks, the DOM is re-rendered from the model
+// on every input and the caret is put back afterwards.
+function TableCell({
+  content,
+  position,
+  align,
+  isHeader,
+  onInput,
+  onKeyDown,
+  onPaste,
+  onFocus,
+}: {
+  content: InlineNode[];
+  position: CellPosition;
+  align: TableAlign;
+  isHeader: boolean;
+  onInput: (content: InlineNode[]) => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLDivElement>) => void;
+  onPaste: (e: React.ClipboardEvent<HTMLDivElement>) => void;
+  onFocus: () => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const cursorOffsetRef = useRef<number | null>(null);
+
+  useLayoutEffect(() => {
+    if (cursorOffsetRef.current !== null && ref.current) {
+      setCaretOffset(ref.current, cursorOffsetRef.current);
+      cursorOffsetRef.current = null;
+    }
+  }, [content]);
+
+  const Tag = isHeader ? "th" : "td";
+  return (
+    <Tag style={{ textAlign: align }}>
+      <div
+        key={content.length === 0 ? "empty" : "content"}
+        ref={ref}
+        className="table-cell"
+        data-cell={`${position.row}:${position.column}`}
+        contentEditable
+        suppressContentEditableWarning
+        spellCheck={false}
+        onInput={(e) => {
+          cursorOffsetRef.current = getCaretOffset(e.currentTarget);
+          onInput(parseDOMToContent(e.currentTarget, content));
+        }}
+        onKeyDown={onKeyDown}
+        onPaste={onPaste}
+        onFocus={onFocus}
+      >
+        <BlockContent content={content} />
+      </div>
+    </Tag>
+  );
+}
+
+export default function TableBlock({
+  block,
+  isFocused,
+  onUpdateMetadata,
+  onUpdateCell,
+  onSelectionChange,
+  onDeleteBlock,
+  onKeyDown,
+}: Props) {
+  const tableRef = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState<CellPosition | null>(null);
+  const table = getTable(block);
+  const columns = columnCount(table);
+  // Hidden once focus leaves the table or the cell is deleted
+  const activeCell =
+    isFocused &&
+    active &&
+    active.row < table.rows.length &&
+    active.column < columns
+      ? active
+      : null;
+
+  const focusCell = ({ row, column }: CellPosition, atEnd = false) => {
+    // Rows and columns may only exist after the next render
+    requestAnimationFrame(() => {
+      const el = tableRef.current?.querySelector<HTMLElement>(
+        `[data-cell="${row}:${column}"]`
+      );
+      if (!el) return;
+      el.focus();
+      setCaretOffset(el, atEnd ? el.textContent?.length ?? 0 : 0);
+    });
+  };
+
+  // Arriving from another block (arrow keys, undo) lands in the first cell
+  useEffect(() => {
+    const root = tableRef.current;
+    if (!isFocused || !root || root.contains(document.activeElement)) return;
+    root.querySelector<HTMLElement>("[data-cell]")?.focus();
+  }, [isFocused]);
+
+  const handleFocus = (e: React.FocusEvent) => {
+    if (e.target === e.currentTarget) focusCell({ row: 0, column: 0 });
+  };
+
+  const update = (next: Table, focus?: CellPosition) => {
+    onUpdateMetadata(block.id, {
+      props: { ...block.props, ...tableProps(next) },
+    });
+    if (focus) focusCell(focus);
+  };
+
+  const handleCellKeyDown = (
+    e: React.KeyboardEvent<HTMLDivElement>,
+    { row, column }: CellPosition
+  ) => {
+    const isMod = e.metaKey || e.ctrlKey;
+    const lastRow = table.rows.length - 1;
+
+    const mark = isMod && !e.altKey && FORMAT_KEYS[e.key.toLowerCase()];
+    if (mark) {
+      e.preventDefault();
+      const { start, end } = getSelectionOffsets(e.currentTarget);
+      const cell = table.rows[row][column];
+      onUpdateCell(
+        block.id,
+        row,
+        column,
+        toggleMarkInRange(cell, start, end, mark)
+      );
+      const el = e.currentTarget;
+      requestAnimationFrame(() => {
+        const anchor = findDOMPosition(el, start);
+        const focus = findDOMPosition(el, end);
+        window
+          .getSelection()
+          ?.setBaseAndExtent(
+            anchor.node,
+            anchor.offset,
+            focus.node,
+            focus.offset
+          );
+      });
+      return;
+    }
+
+    if (e.key === "Tab") {
+      e.preventDefault();
+      const index = row * columns + column + (e.shiftKey ? -1 : 1);
+      if (index < 0) return;
+      // Tab out of the last cell adds a row
+      if (index >= table.rows.length * columns) {
+        update(insertRow(table, table.rows.length), {
+          row: row + 1,
+          column: 0,
+        });
+        return;
+      }
+      focusCell({ row: Math.floor(index / columns), column: index % columns });
+      return;
+    }
+
+    if (e.key === "Enter" && !isMod) {
+      e.preventDefault();
+      if (e.shiftKey) return; // Cells hold a single line
+      if (row < lastRow) focusCell({ row: row + 1, column });
+      else onKeyDown(e, block.id);
+      return;
+    }
+
+    if (e.key === "ArrowUp" && !e.shiftKey) {
+      e.preventDefault();
+      if (row > 0) focusCell({ row: row - 1, column }, true);
+      else onKeyDown(e, block.id);
+      return;
+    }
+    if (e.key === "ArrowDown" && !e.shiftKey) {
+      e.preventDefault();
+      if (row < lastRow) focusCell({ row: row + 1, column }, true);
+      else onKeyDown(e, block.id);
+      return;
+    }
+
+    // Backspace in an entirely empty table removes it, like a divider
+    if (
+      e.key === "Backspace" &&
+      table.rows.every((cells) =>
+        cells.every((cell) => getTextLength(cell) === 0)
+      )
+    ) {
+      e.preventDefault();
+      onDeleteBlock(block.id);
+    }
+  };
+
+  // Grids (a copied table, or tab-separated text from a spreadsheet) fill
+  // the cells from here on; anything else is pasted as one line of text.
+  const handleCellPaste = (
+    e: React.ClipboardEvent<HTMLDivElement>,
+    { row, column }: CellPosition
+  ) => {
+    e.preventDefault();
+    const pasted = readClipboard(e.clipboardData)?.blocks.find(
+      (b) => b.type === "table"
+    );
+    const text = e.clipboardData.getData("text/plain");
+    const grid = pasted
+      ? getTable(pasted).rows
+      : text.includes("\t")
+      ? text
+          .replace(/\r?\n$/, "")
+          .split(/\r?\n/)
+          .map((line) =>
+            line
+              .split("\t")
+              .map((cell) =>
+                cell ? [{ id: uid(), text: cell, marks: [] }] : []
+              )
+          )
+      : null;
+    if (grid) {
+      update(pasteCells(table, row, column, grid));
+      return;
+    }
+    document.execCommand("insertText", false, text.replace(/\s*\n\s*/g, " "));
+  };
+
+  const renderToolbar = ({ row, column }: CellPosition) => (
+    <div className="table-toolbar" contentEditable={false}>
+      <ToolButton
+        title="Header row"
+        isActive={table.headerRow}
+        onClick={() => update({ ...table, headerRow: !table.headerRow })}
+      >
+        <PanelTop size={14} />
+      </ToolButton>
+      <div className="toolbar-divider" />
+      <ToolButton
+        title="Insert row above"
+        onClick={() => update(insertRow(table, row), { row, column })}
+      >
+        <BetweenHorizontalStart size={14} />
+      </ToolButton>
+      <ToolButton
+        title="Insert row below"
+        onClick={() =>
+          update(insertRow(table, row + 1), { row: row + 1, column })
+        }
+      >
+        <BetweenHorizontalEnd size={14} />
+      </ToolButton>
+      <ToolButton
+        title="Move row up"
+        onClick={() =>
+          row > 0 &&
+          update(moveRow(table, row, row - 1), { row: row - 1, column })
+        }
+      >
+        <ArrowUp size={14} />
+      </ToolButton>
+      <ToolButton
+        title="Move row down"
+        onClick={() =>
+          row < table.rows.length - 1 &&
+          update(moveRow(table, row, row + 1), { row: row + 1, column })
+        }
+      >
+        <ArrowDown size={14} />
+      </ToolButton>
+      <ToolButton
+        title="Delete row"
+        onClick={() =>
+          update(removeRow(table, row), {
+            row: Math.min(row, table.rows.length - 2),
+            column,
+          })
+        }
+      >
+        <X size={14} />
+      </ToolButton>
+      <div className="toolbar-divider" />
+      <ToolButton
+        title="Insert column left"
+        onClick={() => update(insertColumn(table, column), { row, column })}
+      >
+        <BetweenVerticalStart size={14} />
+      </ToolButton>
+      <ToolButton
+        title="Insert column right"
+        onClick={() =>
+          update(insertColumn(table, column + 1), { row, column: column + 1 })
+        }
+      >
+        <BetweenVerticalEnd size={14} />
+      </ToolButton>
+      <ToolButton
+        title="Move column left"
+        onClick={() =>
+          column > 0 &&
+          update(moveColumn(table, column, column - 1), {
+            row,
+            column: column - 1,
+          })
+        }
+      >
+        <ArrowLeft size={14} />
+      </ToolButton>
+      <ToolButton
+        title="Move column right"
+        onClick={() =>
+          column < columns - 1 &&
+          update(moveColumn(table, column, column + 1), {
+            row,
+            column: column + 1,
+          })
+        }
+      >
+        <ArrowRight size={14} />
+      </ToolButton>
+      <ToolButton
+        title="Delete column"
+        onClick={() =>
+          update(removeColumn(table, column), {
+            row,
+            column: Math.min(column, columns - 2),
+          })
+        }
+      >
+        <X size={14} />
+      </ToolButton>
+      <div className="toolbar-divider" />
+      {(
+        [
+          ["left", AlignLeft],
+          ["center", AlignCenter],
+          ["right", AlignRight],
+        ] as const
+      ).map(([align, Icon]) => (
+        <ToolButton
+          key={align}
+          title={`Align column ${align}`}
+          isActive={table.columnAlign[column] === align}
+          onClick={() => update(setColumnAlign(table, column, align))}
+        >
+          <Icon size={14} />
+        </ToolButton>
+      ))}
+      <div className="toolbar-divider" />
+      <ToolButton title="Delete table" onClick={() => onDeleteBlock(block.id)}>
+        <Trash size={14} />
+      </ToolButton>
+    </div>
+  );
+
+  return (
+    <div
+      ref={tableRef}
+      data-block-id={block.id}
+      data-atomic
+      tabIndex={-1}
+      className="block block-table"
+      onFocus={handleFocus}
+    >
+      {activeCell && renderToolbar(activeCell)}
+      <table>
+        <tbody>
+          {table.rows.map((cells, row) => (
+            <tr key={table.rowIds[row]}>
+              {cells.map((content, column) => (
+                <TableCell
+                  key={table.columnIds[column]}
+                  content={content}
+                  position={{ row, column }}
+                  align={table.columnAlign[column]}
+                  isHeader={table.headerRow && row === 0}
+                  onInput={(next) => onUpdateCell(block.id, row, column, next)}
+                  onKeyDown={(e) => handleCellKeyDown(e, { row, column })}
+                  onPaste={(e) => handleCellPaste(e, { row, column })}
+                  onFocus={() => {
+                    setActive({ row, column });
+                    if (!isFocused) onSelectionChange(block.id, 0);
+                  }}
+                />
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Bookmark, Clock, X } from "lucide-react";
+import type { DocumentVersion } from "../storage";
+
+interface Props {
+  versions: DocumentVersion[];
+  previewId: string | null;
+  onPreview: (id: string | null) => void;
+  onCreateCheckpoint: (name: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+export default function VersionPanel({
+  versions,
+  previewId,
+  onPreview,
+  onCreateCheckpoint,
+  onClose,
+}: Props) {
+  const [name, setName] = useState("");
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onCreateCheckpoint(name.trim());
+    setName("");
+  };
+
+  return (
+    <aside className="version-panel">
+      <div className="version-panel-header">
+        <span>Version history</span>
+        <button className="toolbar-btn" title="Close" onClick={onClose}>
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="version-checkpoint">
+        <input
+          value={name}
+          placeholder="Name this version..."
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSave();
+          }}
+        />
+        <button
+          className="toolbar-btn"
+          title="Save checkpoint"
+          disabled={!name.trim()}
+          onClick={handleSave}
+        >
+          <Bookmark size={14} />
+        </button>
+      </div>
+
+      <button
+        className={`version-item ${previewId === null ? "active" : ""}`}
+        onClick={() => onPreview(null)}
+      >
+        <span className="version-name">Current version</span>
+      </button>
+
+      {versions.length === 0 && (
+        <div className="version-empty">No saved versions yet</div>
+      )}
+
+      {versions.map((version) => (
+        <button
+          key={version.id}
+          className={`version-item ${previewId === version.id ? "active" : ""}`}
+          onClick={() => onPreview(version.id)}
+        >
+          <span className="version-name">
+            {version.name ?? (
+              <>
+                <Clock size={12} /> Automatic snapshot
+              </>
+            )}
+          </span>
+          <span className="version-time">{formatTime(version.createdAt)}</span>
+        </button>
+      ))}
+    </aside>
+  );
+}
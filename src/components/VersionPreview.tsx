@@ -0,0 +1,75 @@
+import { RotateCcw } from "lucide-react";
+import BlockComponent, { type BlockFocus } from "./Block";
+import type { DocumentVersion } from "../storage";
+import { getListNumbers } from "../utils";
+
+interface Props {
+  version: DocumentVersion;
+  onRestore: (version: DocumentVersion) => void;
+  onExit: () => void;
+}
+
+const NO_FOCUS: BlockFocus = {
+  blockId: null,
+  caretOffset: null,
+  previewType: null,
+  isSlashMenuOpen: false,
+  isRangeSelection: false,
+  pathIds: new Set(),
+};
+
+const noop = () => {};
+
+// A past version rendered with the regular block components. `inert` keeps
+// it read-only: nothing inside can be focused, edited or dragged.
+export default function VersionPreview({ version, onRestore, onExit }: Props) {
+  const listNumbers = getListNumbers(version.blocks);
+
+  return (
+    <div className="editor-container version-preview">
+      <div className="version-preview-banner">
+        <span>
+          Viewing {version.name ? `"${version.name}"` : "automatic snapshot"}{" "}
+          from {new Date(version.createdAt).toLocaleString()}
+        </span>
+        <button className="version-action" onClick={onExit}>
+          Back to current
+        </button>
+        <button
+          className="version-action primary"
+          onClick={() => onRestore(version)}
+        >
+          <RotateCcw size={14} /> Restore this version
+        </button>
+      </div>
+
+      <div inert>
+        {version.blocks.map((block, index) => (
+          <BlockComponent
+            key={block.id}
+            block={block}
+            index={index}
+            listNumber={listNumbers[index]}
+            isSelected={false}
+            isFocused={false}
+            caretOffset={null}
+            isSlashMenuOpen={false}
+            isRangeSelection={false}
+            focus={NO_FOCUS}
+            dropTarget={null}
+            onUpdateContent={noop}
+            onUpdateMetadata={noop}
+            onUpdateCell={noop}
+            onSelectionChange={noop}
+            onDeleteBlock={noop}
+            onKeyDown={noop}
+            onPaste={noop}
+            onDragStart={noop}
+            onDragOver={noop}
+            onDrop={noop}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+import { uid } from "./utils";
+
+// Diagram blocks store draw.io (mxGraph) XML in `props.xml`, so files open
+// unchanged in draw.io. For drawing and editing the XML is read into a
+// small model of shapes and connectors; each cell keeps its draw.io style
+// string, so colours and other settings survive an edit even where this
+// editor does not show them.
+
+// --- 1. MODEL ---
+
+export type ShapeKind =
+  | "rectangle"
+  | "rounded"
+  | "ellipse"
+  | "rhombus"
+  | "text";
+
+export interface DiagramPoint {
+  x: number;
+  y: number;
+}
+
+export interface DiagramShape {
+  id: string;
+  kind: ShapeKind;
+  label: string;
+  style: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DiagramEdge {
+  id: string;
+  label: string;
+  style: string;
+  source: string | null;
+  target: string | null;
+  // Ends that are not attached to a shape, and bends along the way
+  sourcePoint: DiagramPoint | null;
+  targetPoint: DiagramPoint | null;
+  points: DiagramPoint[];
+}
+
+export interface Diagram {
+  shapes: DiagramShape[];
+  edges: DiagramEdge[];
+}
+
+export const SHAPE_STYLES: Record<ShapeKind, string> = {
+  rectangle: "rounded=0;whiteSpace=wrap;html=1;",
+  rounded: "rounded=1;whiteSpace=wrap;html=1;",
+  ellipse: "ellipse;whiteSpace=wrap;html=1;",
+  rhombus: "rhombus;whiteSpace=wrap;html=1;",
+  text: "text;html=1;align=center;verticalAlign=middle;",
+};
+
+const EDGE_STYLE = "edgeStyle=none;html=1;endArrow=classic;";
+
+/** Parses a draw.io style string (`rounded=1;ellipse;fillColor=#fff`). */
+export function parseStyle(style: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+  style.split(";").forEach((part, i) => {
+    if (!part) return;
+    const eq = part.indexOf("=");
+    if (eq !== -1) entries[part.slice(0, eq)] = part.slice(eq + 1);
+    // A leading bare name is the cell's shape
+    else if (i === 0) entries.shape = part;
+    else entries[part] = "1";
+  });
+  return entries;
+}
+
+function shapeKind(style: Record<string, string>): ShapeKind {
+  const shape = style.shape;
+  if (shape === "ellipse" || shape === "doubleEllipse") return "ellipse";
+  if (shape === "rhombus") return "rhombus";
+  if (shape === "text") return "text";
+  return style.rounded === "1" ? "rounded" : "rectangle";
+}
+
+export function createShape(
+  kind: ShapeKind,
+  x: number,
+  y: number
+): DiagramShape {
+  const isText = kind === "text";
+  return {
+    id: uid(),
+    kind,
+    label: isText ? "Text" : "",
+    style: SHAPE_STYLES[kind],
+    x,
+    y,
+    width: isText ? 60 : kind === "rhombus" ? 80 : 120,
+    height: isText ? 30 : kind === "rhombus" ? 80 : 60,
+  };
+}
+
+export function createEdge(source: string, target: string): DiagramEdge {
+  return {
+    id: uid(),
+    label: "",
+    style: EDGE_STYLE,
+    source,
+    target,
+    sourcePoint: null,
+    targetPoint: null,
+    points: [],
+  };
+}
+
+/** Removes a shape together with the connectors attached to it. */
+export function removeShape(diagram: Diagram, id: string): Diagram {
+  return {
+    shapes: diagram.shapes.filter((shape) => shape.id !== id),
+    edges: diagram.edges.filter(
+      (edge) => edge.source !== id && edge.target !== id
+    ),
+  };
+}
+
+// --- 2. XML -> MODEL ---
+
+const number = (el: Element | null, name: string) =>
+  Number(el?.getAttribute(name)) || 0;
+
+const readPoint = (el: Element | null): DiagramPoint | null =>
+  el ? { x: number(el, "x"), y: number(el, "y") } : null;
+
+// Labels of `html=1` cells are markup; only their text is kept.
+function readLabel(value: string, style: Record<string, string>) {
+  if (style.html !== "1" || !/[<&]/.test(value)) return value;
+  const doc = new DOMParser().parseFromString(
+    value.replace(/<br\s*\/?>/gi, "\n").replace(/<\/(div|p)>/gi, "\n$&"),
+    "text/html"
+  );
+  return (doc.body.textContent ?? "").replace(/\n+$/, "");
+}
+
+/**
+ * Reads the shapes and connectors of an `<mxGraphModel>`. Shapes inside
+ * groups get absolute positions; anything else (images, swimlanes, custom
+ * stencils) is drawn as a rectangle. Returns null if the XML is not a
+ * diagram.
+ */
+export function parseDiagram(xml: string): Diagram | null {
+  const doc = new DOMParser().parseFromString(xml, "text/xml");
+  const model = doc.getElementsByTagName("mxGraphModel")[0];
+  if (!model || doc.getElementsByTagName("parsererror").length > 0) {
+    return null;
+  }
+
+  const cells = Array.from(model.getElementsByTagName("mxCell"));
+  const byId = new Map(cells.map((cell) => [cell.getAttribute("id"), cell]));
+  const geometryOf = (cell: Element) =>
+    Array.from(cell.children).find((el) => el.tagName === "mxGeometry") ?? null;
+
+  // Children of a vertex are positioned relative to it. Parents that loop
+  // back on themselves (a broken file) give no offset at all.
+  const offsetOf = (cell: Element): DiagramPoint => {
+    const offset = { x: 0, y: 0 };
+    const visited = new Set([cell]);
+    let parent = byId.get(cell.getAttribute("parent"));
+    while (parent && parent.getAttribute("vertex") === "1") {
+      if (visited.has(parent)) return { x: 0, y: 0 };
+      visited.add(parent);
+      const geometry = geometryOf(parent);
+      offset.x += number(geometry, "x");
+      offset.y += number(geometry, "y");
+      parent = byId.get(parent.getAttribute("parent"));
+    }
+    return offset;
+  };
+
+  const diagram: Diagram = { shapes: [], edges: [] };
+  for (const cell of cells) {
+    const id = cell.getAttribute("id") ?? uid();
+    const style = cell.getAttribute("style") ?? "";
+    const parsed = parseStyle(style);
+    const label = readLabel(cell.getAttribute("value") ?? "", parsed);
+    const geometry = geometryOf(cell);
+    const offset = offsetOf(cell);
+    const shift = (point: DiagramPoint | null) =>
+      point && { x: point.x + offset.x, y: point.y + offset.y };
+
+    if (cell.getAttribute("vertex") === "1" && geometry) {
+      // Groups only hold other cells
+      if (parsed.shape === "group") continue;
+      diagram.shapes.push({
+        id,
+        kind: shapeKind(parsed),
+        label,
+        style,
+        x: number(geometry, "x") + offset.x,
+        y: number(geometry, "y") + offset.y,
+        width: number(geometry, "width"),
+        height: number(geometry, "height"),
+      });
+    } else if (cell.getAttribute("edge") === "1") {
+      const point = (as: string) =>
+        shift(
+          readPoint(
+            geometry?.querySelector(`:scope > mxPoint[as="${as}"]`) ?? null
+          )
+        );
+      const bends = geometry?.querySelector(':scope > Array[as="points"]');
+      diagram.edges.push({
+        id,
+        label,
+        style,
+        source: cell.getAttribute("source"),
+        target: cell.getAttribute("target"),
+        sourcePoint: point("sourcePoint"),
+        targetPoint: point("targetPoint"),
+        points: Array.from(bends?.getElementsByTagName("mxPoint") ?? []).map(
+          (el) => shift(readPoint(el))!
+        ),
+      });
+    }
+  }
+
+  // Connectors to shapes that were skipped are kept as loose lines
+  const shapeIds = new Set(diagram.shapes.map((shape) => shape.id));
+  diagram.edges = diagram.edges.map((edge) => ({
+    ...edge,
+    source: edge.source && shapeIds.has(edge.source) ? edge.source : null,
+    target: edge.target && shapeIds.has(edge.target) ? edge.target : null,
+  }));
+  return diagram;
+}
+
+// --- 3. MODEL -> XML ---
+
+const escapeXML = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "&#10;");
+
+// The inverse of `readLabel`: plain text becomes markup again
+function writeLabel(label: string, style: string) {
+  if (parseStyle(style).html !== "1") return label;
+  return label
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n/g, "<br>");
+}
+
+const pointXML = (point: DiagramPoint, as?: string) =>
+  `<mxPoint x="${point.x}" y="${point.y}"${as ? ` as="${as}"` : ""}/>`;
+
+/**
+ * Writes the diagram as an `<mxGraphModel>` with every cell on the default
+ * layer.
+ */
+export function serializeDiagram(diagram: Diagram): string {
+  const shapes = diagram.shapes.map(
+    (shape) =>
+      `<mxCell id="${escapeXML(shape.id)}" value="${escapeXML(
+        writeLabel(shape.label, shape.style)
+      )}" style="${escapeXML(shape.style)}" vertex="1" parent="1">` +
+      `<mxGeometry x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" as="geometry"/>` +
+      `</mxCell>`
+  );
+  const edges = diagram.edges.map((edge) => {
+    const ends =
+      (edge.source ? ` source="${escapeXML(edge.source)}"` : "") +
+      (edge.target ? ` target="${escapeXML(edge.target)}"` : "");
+    const points =
+      (edge.sourcePoint ? pointXML(edge.sourcePoint, "sourcePoint") : "") +
+      (edge.targetPoint ? pointXML(edge.targetPoint, "targetPoint") : "") +
+      (edge.points.length > 0
+        ? `<Array as="points">${edge.points
+            .map((point) => pointXML(point))
+            .join("")}</Array>`
+        : "");
+    return (
+      `<mxCell id="${escapeXML(edge.id)}" value="${escapeXML(
+        writeLabel(edge.label, edge.style)
+      )}" style="${escapeXML(edge.style)}" edge="1" parent="1"${ends}>` +
+      `<mxGeometry relative="1" as="geometry">${points}</mxGeometry>` +
+      `</mxCell>`
+    );
+  });
+  return (
+    `<mxGraphModel><root><mxCell id="0"/><mxCell id="1" parent="0"/>` +
+    `${shapes.join("")}${edges.join("")}</root></mxGraphModel>`
+  );
+}
+
+/** Wraps the model in an `<mxfile>`, the format of `.drawio` files. */
+export const toDrawioFile = (xml: string) =>
+  `<mxfile><diagram id="${uid()}" name="Page-1">${xml}</diagram></mxfile>`;
+
+// --- 4. FILES ---
+
+// Compressed pages are deflated, base64 encoded and URI encoded
+async function inflatePage(data: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(data.trim()), (ch) => ch.charCodeAt(0));
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return decodeURIComponent(await new Response(stream).text());
+}
+
+/**
+ * Extracts the `<mxGraphModel>` XML from the contents of a `.drawio` file
+ * (its first page) or returns the model itself. Resolves to null for
+ * anything that is not a diagram.
+ */
+export async function readDiagramFile(text: string): Promise<string | null> {
+  const doc = new DOMParser().parseFromString(text, "text/xml");
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName("parsererror").length > 0) return null;
+  if (root.tagName === "mxGraphModel") return text;
+  if (root.tagName !== "mxfile") return null;
+
+  const page = root.getElementsByTagName("diagram")[0];
+  if (!page) return null;
+  const model = page.getElementsByTagName("mxGraphModel")[0];
+  const xml = model
+    ? new XMLSerializer().serializeToString(model)
+    : await inflatePage(page.textContent ?? "").catch((err) => {
+        console.warn("Could not decompress diagram", err);
+        return null;
+      });
+  return xml && parseDiagram(xml) ? xml : null;
+}
+
+export const isDiagramFile = (file: File) => /\.drawio$/i.test(file.name);
+
+// --- 5. GEOMETRY ---
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const center = (shape: DiagramShape): DiagramPoint => ({
+  x: shape.x + shape.width / 2,
+  y: shape.y + shape.height / 2,
+});
+
+// Where the line from the shape's center towards `toward` leaves it
+function clipToShape(shape: DiagramShape, toward: DiagramPoint): DiagramPoint {
+  const c = center(shape);
+  const dx = toward.x - c.x;
+  const dy = toward.y - c.y;
+  const hw = shape.width / 2;
+  const hh = shape.height / 2;
+  if ((dx === 0 && dy === 0) || hw === 0 || hh === 0) return c;
+
+  const t =
+    shape.kind === "ellipse"
+      ? 1 / Math.hypot(dx / hw, dy / hh)
+      : shape.kind === "rhombus"
+      ? 1 / (Math.abs(dx) / hw + Math.abs(dy) / hh)
+      : Math.min(
+          dx === 0 ? Infinity : hw / Math.abs(dx),
+          dy === 0 ? Infinity : hh / Math.abs(dy)
+        );
+  return t >= 1 ? toward : { x: c.x + dx * t, y: c.y + dy * t };
+}
+
+/**
+ * The points a connector passes through, from source to target. Orthogonal
+ * connectors without bends of their own get a single elbow.
+ */
+export function routeEdge(diagram: Diagram, edge: DiagramEdge): DiagramPoint[] {
+  const find = (id: string | null) =>
+    diagram.shapes.find((shape) => shape.id === id) ?? null;
+  const source = find(edge.source);
+  const target = find(edge.target);
+  const start = source ? center(source) : edge.sourcePoint;
+  const end = target ? center(target) : edge.targetPoint;
+  if (!start || !end) return [];
+
+  let bends = edge.points;
+  if (
+    bends.length === 0 &&
+    parseStyle(edge.style).edgeStyle === "orthogonalEdgeStyle" &&
+    start.x !== end.x &&
+    start.y !== end.y
+  ) {
+    const horizontal = Math.abs(end.x - start.x) >= Math.abs(end.y - start.y);
+    const mid = horizontal ? (start.x + end.x) / 2 : (start.y + end.y) / 2;
+    bends = horizontal
+      ? [
+          { x: mid, y: start.y },
+          { x: mid, y: end.y },
+        ]
+      : [
+          { x: start.x, y: mid },
+          { x: end.x, y: mid },
+        ];
+  }
+
+  const route = [start, ...bends, end];
+  if (source) route[0] = clipToShape(source, route[1]);
+  if (target) {
+    route[route.length - 1] = clipToShape(target, route[route.length - 2]);
+  }
+  return route;
+}
+
+/** The smallest box around every shape and connector, or null if empty. */
+export function getDiagramBounds(diagram: Diagram): Bounds | null {
+  const points = [
+    ...diagram.shapes.flatMap((shape) => [
+      { x: shape.x, y: shape.y },
+      { x: shape.x + shape.width, y: shape.y + shape.height },
+    ]),
+    ...diagram.edges.flatMap((edge) => routeEdge(diagram, edge)),
+  ];
+  if (points.length === 0) return null;
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return {
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y,
+  };
+}
@@ -1,33 +1,161 @@
-import { useEffect, useMemo, useState } from "react";
-import BlockComponent from "../components/Block";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { History, PenLine } from "lucide-react";
+import BlockComponent, {
+  type BlockFocus,
+  type BlockProps,
+} from "../components/Block";
 import SlashMenu from "../components/SlashMenu";
 import InlineToolbar from "../components/InlineToolbar";
+import LinkPopover from "../components/LinkPopover";
+import VersionPanel from "../components/VersionPanel";
+import VersionPreview from "../components/VersionPreview";
+import CommentSidebar from "../components/CommentSidebar";
+import SuggestionPanel from "../components/SuggestionPanel";
+import FindBar from "../components/FindBar";
 import {
+  uid,
   createBlock,
+  createDiagramBlock,
+  createImageBlock,
   flattenBlocks,
   findNodePath,
+  indentBlock,
+  outdentBlock,
+  getBlockPath,
+  getListNumbers,
   updateBlockInTree,
   insertAfterInTree,
-  insertBeforeInTree,
   deleteBlockFromTree,
   getTextLength,
+  getSelectionOffsets,
+  getEditorSelection,
+  setEditorSelection,
+  getCaretPositionFromPoint,
+  getFormattableSegments,
+  sliceBlocks,
+  deleteRangeInTree,
+  replaceContentRange,
+  splitContentAt,
+  mergeSimilarNodes,
   sanitizeBlock,
   normalizeEditorState,
-  toggleMarkInRange,
+  isMarkActiveInRange,
+  setMarkInRange,
+  removeMarkInRange,
+  getMarkExtent,
+  getMarksAt,
+  sanitizeHref,
+  autoLinkAt,
+  setCaretOffset,
+  findDOMPosition,
 } from "../utils";
 import { COMMANDS } from "../commands";
+import {
+  readClipboard,
+  readImageFiles,
+  writeClipboard,
+  type ClipboardSlice,
+} from "../clipboard";
 import type {
   Block,
   BlockType,
   InlineNode,
   EditorSelection,
   MarkType,
+  Mark,
+  HighlightColor,
+  CommentThread,
 } from "../types";
+import { DEFAULT_HIGHLIGHT } from "../colors";
 import { useHistory } from "../hooks/useHistory";
+import { useAutosave } from "../hooks/useAutosave";
+import { useVersionHistory } from "../hooks/useVersionHistory";
+import { useSync } from "../hooks/useSync";
+import { usePresence } from "../hooks/usePresence";
+import {
+  createBroadcastChannelPresence,
+  getPeerDecorations,
+  getRoom,
+} from "../presence";
+import { loadDocument, saveImage, type DocumentVersion } from "../storage";
+import {
+  CommentContext,
+  createComment,
+  getCommentAnchors,
+  getUncommentedRanges,
+  type CommentAnchor,
+} from "../comments";
+import {
+  getBlockSuggestion,
+  getSuggestions,
+  resolveSuggestions,
+  suggestBlockDeletion,
+  suggestInsertedBlocks,
+  suggestionMark,
+  suggestRangeDeletion,
+  suggestTextChange,
+  withBlockSuggestion,
+  type Suggestion,
+} from "../suggestions";
+import type { SearchMatch } from "../search";
+import { matchBlockInputRule, matchInlineInputRule } from "../inputRules";
+import {
+  locateBlock,
+  moveBlockOperation,
+  setBlockOperation,
+  toggleMarkOperation,
+  type Operation,
+} from "../transactions";
+import { createTable, getTable, setCell, tableProps } from "../table";
+import { isDiagramFile, readDiagramFile } from "../diagram";
 
 const getPlainText = (content: InlineNode[]) =>
   content.map((n) => n.text).join("");
 
+const spansBlocks = (range: EditorSelection) =>
+  !range.isCollapsed && range.start.blockId !== range.end.blockId;
+
+// Typing is grouped into undo steps. A step ends after a pause, when the
+// caret jumps elsewhere, when typing switches between inserting and deleting,
+// and when a new word starts.
+const TYPING_PAUSE_MS = 1000;
+
+interface Keystroke {
+  blockId: string;
+  kind: "insert" | "delete";
+  // Caret range the keystroke touched, and the caret after it
+  from: number;
+  to: number;
+  caret: number;
+  endsWithSpace: boolean;
+  time: number;
+}
+
+const startsTypingGroup = (prev: Keystroke | null, next: Keystroke) =>
+  !prev ||
+  prev.blockId !== next.blockId ||
+  prev.kind !== next.kind ||
+  next.time - prev.time > TYPING_PAUSE_MS ||
+  prev.caret < next.from ||
+  prev.caret > next.to ||
+  (next.kind === "insert" && prev.endsWithSpace && !next.endsWithSpace);
+
+const createPresenceChannel = () => createBroadcastChannelPresence(getRoom());
+
+type BlockHandlers = Pick<
+  BlockProps,
+  | "onUpdateContent"
+  | "onUpdateMetadata"
+  | "onUpdateCell"
+  | "onSelectionChange"
+  | "onDeleteBlock"
+  | "onKeyDown"
+  | "onPaste"
+  | "onDragStart"
+  | "onDragOver"
+  | "onDrop"
+>;
+
 export default function Editor() {
   // 1. Create the initial block once so we have a stable ID
   const [initialBlock] = useState(() => createBlock("paragraph", ""));
@@ -36,14 +164,45 @@ export default function Editor() {
   const {
     state: blocks,
     set: setBlocksRaw,
+    apply: applyOperations,
     undo,
     redo,
     saveSnapshot,
-  } = useHistory<Block[]>([initialBlock]);
+    receive: receiveBlocks,
+    reset: resetBlocks,
+    getLatest: getLatestBlocks,
+  } = useHistory([initialBlock], getEditorSelection);
+
+  // The last input rule, kept until the next change so that a Backspace
+  // right after it can restore the literal text that triggered it.
+  const inputRuleRef = useRef<{
+    blocks: Block[];
+    caret: { blockId: string; offset: number };
+    literalCaret: { blockId: string; offset: number };
+  } | null>(null);
+
+  // The keystroke that last extended the current typing group, if any
+  const keystrokeRef = useRef<Keystroke | null>(null);
 
-  const setBlocks = (newBlocks: Block[], save: boolean) => {
+  const setBlocks = (
+    newBlocks: Block[],
+    save: boolean,
+    selectionBefore?: EditorSelection | null
+  ) => {
+    inputRuleRef.current = null;
+    keystrokeRef.current = null;
     const normalized = normalizeEditorState(newBlocks);
-    setBlocksRaw(normalized, save);
+    setBlocksRaw(normalized, save, selectionBefore);
+  };
+
+  // Edits that know exactly what they change skip the tree diff and are
+  // recorded as the given operations, in a history entry of their own.
+  const commit = (ops: Operation[]) => {
+    if (ops.length === 0) return;
+    inputRuleRef.current = null;
+    keystrokeRef.current = null;
+    saveSnapshot();
+    applyOperations(ops);
   };
 
   // 3. Initialize Focus/Selection to that specific block ID
@@ -54,6 +213,50 @@ export default function Editor() {
     isCollapsed: true,
   });
 
+  // 4. Restore the saved document, then keep it persisted. A note that
+  // cannot be read is left untouched: nothing is saved or synced over it.
+  const [isRestored, setIsRestored] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDocument()
+      .then((saved) => {
+        if (cancelled) return;
+        if (saved) {
+          const first = saved.blocks[0];
+          resetBlocks(saved.blocks);
+          setThreads(saved.threads);
+          setFocusedId(first.id);
+          setSelection({
+            start: { blockId: first.id, offset: 0 },
+            end: { blockId: first.id, offset: 0 },
+            isCollapsed: true,
+          });
+        }
+        setIsRestored(true);
+      })
+      .catch((err) => {
+        console.error("Failed to restore document", err);
+        if (!cancelled) setRestoreError(String(err?.message ?? err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [resetBlocks]);
+
+  useAutosave(blocks, threads, isRestored);
+  useSync(blocks, receiveBlocks, isRestored);
+
+  // 5. Version history: the panel lists saved versions and selecting one
+  // swaps the editor for a read-only preview of it.
+  const { versions, createCheckpoint } = useVersionHistory(blocks, isRestored);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
+  const previewVersion =
+    versions.find((v) => v.id === previewVersionId) ?? null;
+
   const [dragId, setDragId] = useState<string | null>(null);
   const [dropTarget, setDropTarget] = useState<{
     id: string;
@@ -77,11 +280,108 @@ export default function Editor() {
   });
 
   const [isTyping, setIsTyping] = useState(false);
+  const [lastHighlight, setLastHighlight] =
+    useState<HighlightColor>(DEFAULT_HIGHLIGHT);
+
+  // Range captured when the link popover opens (focus moves to its input)
+  const [linkPopover, setLinkPopover] = useState<{
+    blockId: string;
+    start: number;
+    end: number;
+    href: string;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  // Native selections cannot leave the editable block they started in, so
+  // while a range spans blocks the whole editor becomes one editing host.
+  const editorRef = useRef<HTMLDivElement>(null);
+  const dragAnchorRef = useRef<{ node: Node; offset: number } | null>(null);
+  const [isSpanning, setIsSpanning] = useState(false);
 
   const flatBlocks = useMemo(() => flattenBlocks(blocks), [blocks]);
 
   const [previewType, setPreviewType] = useState<BlockType | null>(null);
 
+  // Collaborators in other tabs
+  const { peers, identity } = usePresence(
+    createPresenceChannel,
+    focusedId,
+    selection
+  );
+  const peerDecorations = useMemo(
+    () => getPeerDecorations(blocks, peers),
+    [blocks, peers]
+  );
+  // Lets memoised blocks tell in one lookup whether a selection is inside
+  const peerBlockIds = useMemo(
+    () =>
+      new Set(
+        [...peerDecorations.keys()].flatMap((id) =>
+          getBlockPath(blocks, id).map((b) => b.id)
+        )
+      ),
+    [blocks, peerDecorations]
+  );
+  const focusPathIds = useMemo(
+    () =>
+      new Set(
+        focusedId ? getBlockPath(blocks, focusedId).map((b) => b.id) : []
+      ),
+    [blocks, focusedId]
+  );
+
+  // Comment threads live beside the document; the text they discuss carries
+  // a `comment` mark with the thread id. The thread under the selection is
+  // the active one.
+  const [commentDraft, setCommentDraft] = useState<EditorSelection | null>(
+    null
+  );
+  // Threads whose text was deleted drop out until an undo brings it back
+  const anchoredThreads = useMemo(() => {
+    const anchors = getCommentAnchors(blocks);
+    return threads.flatMap((thread) => {
+      const anchor = anchors.get(thread.id);
+      return anchor ? [{ thread, anchor }] : [];
+    });
+  }, [blocks, threads]);
+  const activeThreadId: string | null = useMemo(() => {
+    if (!selection) return null;
+    const block = flatBlocks.find((b) => b.id === selection.start.blockId);
+    return block
+      ? getMarksAt(block.content, selection.start.offset).find(
+          (m) => m.type === "comment"
+        )?.attrs?.threadId ?? null
+      : null;
+  }, [flatBlocks, selection]);
+  const commentContext = useMemo(
+    () => ({
+      resolvedIds: new Set(threads.filter((t) => t.resolved).map((t) => t.id)),
+      activeId: activeThreadId,
+    }),
+    [threads, activeThreadId]
+  );
+
+  // Suggesting mode records edits as proposals (see `suggestions.ts`).
+  // Formatting and block conversions still apply directly, and so does
+  // typing in code blocks, which cannot hold marks.
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const suggestions = useMemo(() => getSuggestions(blocks), [blocks]);
+  // Set by the Delete key, so the caret can skip the text it marks
+  const forwardDeleteRef = useRef(false);
+
+  // Find and replace searches every block, collapsed ones included; the bar
+  // owns the query and highlights matches itself (see `search.ts`).
+  const [findBar, setFindBar] = useState<{
+    showReplace: boolean;
+    focusRequest: number;
+  } | null>(null);
+
+  const removeRange = (tree: Block[], range: EditorSelection) =>
+    isSuggesting
+      ? suggestRangeDeletion(tree, range, identity.name)
+      : deleteRangeInTree(tree, range);
+
   // --- Global Listeners ---
   useEffect(() => {
     function onMouseMove() {
@@ -102,32 +402,8 @@ export default function Editor() {
 
     // Global Selection Listener
     const handleGlobalSelection = () => {
-      const sel = window.getSelection();
-      if (!sel || sel.rangeCount === 0) return;
-
-      const range = sel.getRangeAt(0);
-      let target = range.startContainer.parentElement;
-      while (target && !target.id) {
-        target = target.parentElement;
-      }
-
-      const blockId = target?.id;
-
-      if (blockId) {
-        if (!sel.isCollapsed) {
-          setSelection({
-            start: { blockId, offset: range.startOffset },
-            end: { blockId, offset: range.endOffset },
-            isCollapsed: false,
-          });
-        } else {
-          setSelection({
-            start: { blockId, offset: range.startOffset },
-            end: { blockId, offset: range.endOffset },
-            isCollapsed: true,
-          });
-        }
-      }
+      const range = getEditorSelection();
+      if (range) setSelection(range);
     };
 
     window.addEventListener("mousemove", onMouseMove);
@@ -143,26 +419,227 @@ export default function Editor() {
     };
   }, [slashMenu.open, isTyping]);
 
+  // --- Clipboard ---
   useEffect(() => {
-    function onWindowKeyDown(e: KeyboardEvent) {
-      if (!isTyping) setIsTyping(true);
+    function onCopyOrCut(e: ClipboardEvent) {
+      const range = getEditorSelection();
+      if (!range || range.isCollapsed || !e.clipboardData) return;
+
+      const slice = sliceBlocks(blocks, range);
+      if (slice.length === 0) return;
+
+      e.preventDefault();
+      writeClipboard(e.clipboardData, {
+        blocks: slice,
+        inline: range.start.blockId === range.end.blockId,
+      });
+
+      if (e.type === "cut") {
+        saveSnapshot();
+        const { blocks: newBlocks, caret } = removeRange(blocks, range);
+        // Leaves spanning mode, like `setSpanningMode(false)` below
+        editorRef.current?.setAttribute("contenteditable", "false");
+        setIsSpanning(false);
+        window.getSelection()?.removeAllRanges();
+        setBlocks(newBlocks, false);
+        setFocusedId(caret.blockId);
+        setSelection({
+          start: caret,
+          end: caret,
+          isCollapsed: true,
+        });
+      }
+    }
+
+    document.addEventListener("copy", onCopyOrCut);
+    document.addEventListener("cut", onCopyOrCut);
+    return () => {
+      document.removeEventListener("copy", onCopyOrCut);
+      document.removeEventListener("cut", onCopyOrCut);
+    };
+  });
+
+  // --- Cross-block Selection ---
+  const setSpanningMode = (on: boolean) => {
+    // Flipped on the DOM right away so the browser sees the new editing host
+    // before React re-renders.
+    editorRef.current?.setAttribute("contenteditable", String(on));
+    setIsSpanning(on);
+  };
 
-      if ((e.metaKey || e.ctrlKey) && e.key === "z") {
+  useEffect(() => {
+    const isHostActive = () =>
+      editorRef.current?.getAttribute("contenteditable") === "true";
+    const blockRootOf = (node: Node | null) =>
+      (node instanceof HTMLElement ? node : node?.parentElement)?.closest(
+        "[data-block-id]"
+      ) ?? null;
+
+    function onMouseDown(e: MouseEvent) {
+      const target = e.target as HTMLElement;
+      if (target.closest(".inline-toolbar")) return;
+
+      const root = blockRootOf(target);
+      const point = getCaretPositionFromPoint(e.clientX, e.clientY);
+      const sel = window.getSelection();
+
+      // Shift+click in another block extends the selection into it
+      if (
+        e.shiftKey &&
+        root &&
+        point &&
+        sel?.anchorNode &&
+        blockRootOf(sel.anchorNode) !== root
+      ) {
         e.preventDefault();
-        e.shiftKey ? redo() : undo();
+        setSpanningMode(true);
+        sel.setBaseAndExtent(
+          sel.anchorNode,
+          sel.anchorOffset,
+          point.node,
+          point.offset
+        );
+        return;
       }
+
+      if (isHostActive()) setSpanningMode(false);
+      dragAnchorRef.current = root ? point : null;
     }
-    window.addEventListener("keydown", onWindowKeyDown);
-    return () => window.removeEventListener("keydown", onWindowKeyDown);
-  }, [undo, redo, isTyping]);
+
+    function onMouseMove(e: MouseEvent) {
+      const anchor = dragAnchorRef.current;
+      if (!anchor || !(e.buttons & 1)) return;
+
+      const root = blockRootOf(document.elementFromPoint(e.clientX, e.clientY));
+      if (!root || (root === blockRootOf(anchor.node) && !isHostActive()))
+        return;
+
+      const point = getCaretPositionFromPoint(e.clientX, e.clientY);
+      if (!point) return;
+      if (!isHostActive()) setSpanningMode(true);
+      window
+        .getSelection()
+        ?.setBaseAndExtent(
+          anchor.node,
+          anchor.offset,
+          point.node,
+          point.offset
+        );
+    }
+
+    function onMouseUp() {
+      dragAnchorRef.current = null;
+    }
+
+    // Hand the caret back to its block once the range no longer spans blocks
+    function onSelectionChange() {
+      if (!isHostActive() || dragAnchorRef.current) return;
+      const range = getEditorSelection();
+      if (range && spansBlocks(range)) return;
+
+      setSpanningMode(false);
+      if (range) {
+        document
+          .querySelector<HTMLElement>(
+            `[data-block-id="${range.start.blockId}"]`
+          )
+          ?.focus();
+        setEditorSelection(range);
+      }
+    }
+
+    window.addEventListener("mousedown", onMouseDown, true);
+    window.addEventListener("mousemove", onMouseMove);
+    window.addEventListener("mouseup", onMouseUp);
+    document.addEventListener("selectionchange", onSelectionChange);
+    return () => {
+      window.removeEventListener("mousedown", onMouseDown, true);
+      window.removeEventListener("mousemove", onMouseMove);
+      window.removeEventListener("mouseup", onMouseUp);
+      document.removeEventListener("selectionchange", onSelectionChange);
+    };
+  });
 
   // --- Handlers ---
 
-  const handleUpdateContent = (id: string, content: InlineNode[]) => {
-    const newBlocks = updateBlockInTree(blocks, id, (b) => ({ ...b, content }));
-    setBlocks(newBlocks, false);
+  const handleUpdateContent = (
+    id: string,
+    content: InlineNode[],
+    caretOffset?: number
+  ) => {
+    const caret: EditorSelection | null =
+      caretOffset === undefined
+        ? getEditorSelection()
+        : {
+            start: { blockId: id, offset: caretOffset },
+            end: { blockId: id, offset: caretOffset },
+            isCollapsed: true,
+          };
+    const block = flatBlocks.find((b) => b.id === id);
+    const suggesting = isSuggesting && block && block.type !== "code";
+    if (
+      block &&
+      !suggesting &&
+      caret?.isCollapsed &&
+      caret.start.blockId === id &&
+      applyInputRules(block, content, caret.start.offset)
+    ) {
+      return;
+    }
+
+    // Auto-link a URL once whitespace is typed right after it
+    if (
+      block?.type !== "code" &&
+      !suggesting &&
+      caret?.isCollapsed &&
+      caret.start.blockId === id &&
+      /\s/.test(getPlainText(content)[caret.start.offset - 1] || "")
+    ) {
+      content = autoLinkAt(content, caret.start.offset - 1);
+    }
 
     const plainText = getPlainText(content);
+    const keystroke = block ? describeKeystroke(block, plainText, caret) : null;
+
+    // The DOM caret sits where the browser left it; deleted text that stays
+    // visible can move it.
+    let suggestedCaret: number | null = null;
+    if (suggesting) {
+      const offset =
+        caret?.isCollapsed && caret.start.blockId === id
+          ? caret.start.offset
+          : plainText.length;
+      const ownBlock = getBlockSuggestion(block);
+      const suggested = suggestTextChange(
+        block.content,
+        content,
+        offset,
+        identity.name,
+        {
+          forward: forwardDeleteRef.current,
+          insertionId:
+            ownBlock?.kind === "insert" && ownBlock.author === identity.name
+              ? ownBlock.id
+              : undefined,
+        }
+      );
+      content = suggested.content;
+      if (suggested.caret !== offset) suggestedCaret = suggested.caret;
+    }
+    const newBlocks = updateBlockInTree(blocks, id, (b) => ({ ...b, content }));
+    // A new group starts from the caret as it was before this keystroke
+    const before = keystroke && {
+      blockId: id,
+      offset: keystroke.kind === "insert" ? keystroke.from : keystroke.to,
+    };
+    setBlocks(
+      newBlocks,
+      !keystroke || startsTypingGroup(keystrokeRef.current, keystroke),
+      before && { start: before, end: before, isCollapsed: true }
+    );
+    keystrokeRef.current = keystroke;
+    if (suggestedCaret !== null) focusBlockAt(id, suggestedCaret);
+
     if (plainText.startsWith("/")) {
       const el = document.getElementById(id);
       if (el) {
@@ -181,10 +658,155 @@ export default function Editor() {
     }
   };
 
-  const handleUpdateMetadata = (id: string, meta: Partial<Block>) => {
+  // Works out what a keystroke did by comparing the block's text before and
+  // after it; null when that is unclear (e.g. no caret in the block).
+  const describeKeystroke = (
+    block: Block,
+    text: string,
+    caret: EditorSelection | null
+  ): Keystroke | null => {
+    if (!caret?.isCollapsed || caret.start.blockId !== block.id) return null;
+    const delta = text.length - getTextLength(block.content);
+    if (delta === 0) return null;
+    const offset = caret.start.offset;
+    const typed = text.slice(offset - delta, offset);
+    return {
+      blockId: block.id,
+      kind: delta > 0 ? "insert" : "delete",
+      from: delta > 0 ? offset - delta : offset,
+      to: delta > 0 ? offset - delta : offset - delta,
+      caret: offset,
+      endsWithSpace: delta > 0 && /\s$/.test(typed),
+      time: Date.now(),
+    };
+  };
+
+  // Returns true when the keystroke that produced `content` triggered a
+  // block conversion or an inline mark.
+  const applyInputRules = (
+    block: Block,
+    content: InlineNode[],
+    offset: number
+  ) => {
+    if (block.type === "code") return false;
+
+    const literal = updateBlockInTree(blocks, block.id, (b) => ({
+      ...b,
+      content,
+    }));
+    let newBlocks: Block[];
+    let caret = { blockId: block.id, offset: 0 };
+
+    const converted = matchBlockInputRule(block, content, offset);
+    const marked = converted ? null : matchInlineInputRule(content, offset);
+    if (converted) {
+      newBlocks = updateBlockInTree(blocks, block.id, () => converted);
+      // A divider cannot hold text, so typing continues in a new block
+      if (converted.type === "divider") {
+        const next = {
+          ...createBlock("paragraph"),
+          content: converted.content,
+        };
+        newBlocks = insertAfterInTree(newBlocks, block.id, next);
+        caret = { blockId: next.id, offset: 0 };
+      }
+    } else if (marked) {
+      newBlocks = updateBlockInTree(blocks, block.id, (b) => ({
+        ...b,
+        content: marked.content,
+      }));
+      caret = { blockId: block.id, offset: marked.offset };
+    } else {
+      return false;
+    }
+
     saveSnapshot();
-    const newBlocks = updateBlockInTree(blocks, id, (b) => ({ ...b, ...meta }));
     setBlocks(newBlocks, false);
+    if (slashMenu.open) setSlashMenu((prev) => ({ ...prev, open: false }));
+    inputRuleRef.current = {
+      blocks: literal,
+      caret,
+      literalCaret: { blockId: block.id, offset },
+    };
+    focusBlockAt(caret.blockId, caret.offset);
+    return true;
+  };
+
+  // Backspace straight after an input rule brings back the typed text.
+  const undoInputRule = () => {
+    const pending = inputRuleRef.current;
+    const range = getEditorSelection();
+    if (
+      !pending ||
+      !range?.isCollapsed ||
+      range.start.blockId !== pending.caret.blockId ||
+      range.start.offset !== pending.caret.offset
+    ) {
+      return false;
+    }
+
+    saveSnapshot();
+    setBlocks(pending.blocks, false);
+    focusBlockAt(pending.literalCaret.blockId, pending.literalCaret.offset);
+    return true;
+  };
+
+  // Typing in a table cell is grouped into undo steps per cell, like text
+  const handleUpdateCell = (
+    id: string,
+    row: number,
+    column: number,
+    content: InlineNode[]
+  ) => {
+    const block = findNodePath(blocks, id)?.node;
+    if (!block) return;
+    const table = getTable(block);
+    const before = getTextLength(table.rows[row]?.[column] ?? []);
+    const keystroke: Keystroke = {
+      blockId: `${id}:${table.rowIds[row]}:${table.columnIds[column]}`,
+      kind: getTextLength(content) < before ? "delete" : "insert",
+      from: 0,
+      to: 0,
+      caret: 0,
+      endsWithSpace: false,
+      time: Date.now(),
+    };
+    const next = tableProps(setCell(table, row, column, content));
+    setBlocks(
+      updateBlockInTree(blocks, id, (b) => ({
+        ...b,
+        props: { ...b.props, ...next },
+      })),
+      startsTypingGroup(keystrokeRef.current, keystroke)
+    );
+    keystrokeRef.current = keystroke;
+  };
+
+  // Metadata is the block's type, props and open state; content changes go
+  // through `handleUpdateContent`.
+  const handleUpdateMetadata = (id: string, meta: Partial<Block>) => {
+    const block = findNodePath(blocks, id)?.node;
+    if (!block) return;
+    commit([setBlockOperation(block, meta)]);
+
+    // Collapsing must not leave the caret inside the now hidden children
+    if (meta.isOpen === false && focusedId && focusedId !== id) {
+      const collapsed = getBlockPath(blocks, focusedId).find(
+        (b) => b.id === id
+      );
+      if (collapsed) focusBlockAt(id, getTextLength(collapsed.content));
+    }
+  };
+
+  // Folds or unfolds the toggle holding the caret: the focused block itself
+  // or its closest toggle ancestor.
+  const handleFold = (id: string, isOpen: boolean) => {
+    const toggle = getBlockPath(blocks, id)
+      .reverse()
+      .find((b) => b.type === "toggle");
+    if (toggle && toggle.isOpen !== isOpen) {
+      handleUpdateMetadata(toggle.id, { isOpen });
+    }
   };
 
   const handleSelectionChange = (id: string, offset: number) => {
@@ -192,28 +814,474 @@ export default function Editor() {
     // Selection state is largely handled by global listener
   };
 
-  const handleToggleMark = (mark: MarkType) => {
+  // Applies an inline update to the selected text of every block in the
+  // selection as a single history entry, then re-selects the range.
+  const updateSelectedContent = (
+    mark: Mark,
+    update: (content: InlineNode[], start: number, end: number) => InlineNode[]
+  ) => {
+    if (!selection || selection.isCollapsed) return;
+    const segments = getFormattableSegments(blocks, selection);
+    if (segments.length === 0) return;
+
+    commit(
+      segments.map(({ block, start, end }) =>
+        toggleMarkOperation(block, start, end, mark, update)
+      )
+    );
+
+    const range = selection;
+    requestAnimationFrame(() => setEditorSelection(range));
+  };
+
+  // The whole selection is toggled together: it only loses the mark when
+  // every selected block already has it.
+  const handleToggleMark = (markOrType: MarkType | Mark) => {
+    if (!selection) return;
+    const mark: Mark =
+      typeof markOrType === "string" ? { type: markOrType } : markOrType;
+    const isActive = getFormattableSegments(blocks, selection).every(
+      ({ block, start, end }) =>
+        isMarkActiveInRange(block.content, start, end, mark)
+    );
+    updateSelectedContent(mark, (content, start, end) =>
+      isActive
+        ? removeMarkInRange(content, start, end, mark.type)
+        : setMarkInRange(content, start, end, mark)
+    );
+  };
+
+  // Picking a colour always applies it; the shortcut toggles the last one.
+  const handleHighlight = (color: HighlightColor | null) => {
+    if (color) setLastHighlight(color);
+    const mark: Mark = color
+      ? { type: "highlight", attrs: { color } }
+      : { type: "highlight" };
+    updateSelectedContent(mark, (content, start, end) =>
+      color
+        ? setMarkInRange(content, start, end, mark)
+        : removeMarkInRange(content, start, end, "highlight")
+    );
+  };
+
+  const focusBlockAt = (blockId: string, offset: number) => {
+    setFocusedId(blockId);
+    setSelection({
+      start: { blockId, offset },
+      end: { blockId, offset },
+      isCollapsed: true,
+    });
+    requestAnimationFrame(() => {
+      const el = document.querySelector<HTMLElement>(
+        `[data-block-id="${blockId}"]`
+      );
+      if (el) {
+        el.focus();
+        setCaretOffset(el, offset);
+      }
+    });
+  };
+
+  // Puts focus and the caret or range back where a history entry left them
+  const restoreSelection = (range: EditorSelection | null) => {
+    if (!range) return;
+    if (range.isCollapsed) {
+      focusBlockAt(range.start.blockId, range.start.offset);
+      return;
+    }
+    setFocusedId(range.start.blockId);
+    setSelection(range);
+    requestAnimationFrame(() => {
+      if (spansBlocks(range)) {
+        setSpanningMode(true);
+      } else {
+        document
+          .querySelector<HTMLElement>(
+            `[data-block-id="${range.start.blockId}"]`
+          )
+          ?.focus();
+      }
+      setEditorSelection(range);
+    });
+  };
+
+  useEffect(() => {
+    function onWindowKeyDown(e: KeyboardEvent) {
+      if (!isTyping) setIsTyping(true);
+
+      if ((e.metaKey || e.ctrlKey) && e.key === "z" && !previewVersion) {
+        e.preventDefault();
+        keystrokeRef.current = null;
+        restoreSelection(e.shiftKey ? redo() : undo());
+      }
+
+      // Cmd+F finds, Cmd+Shift+H finds and replaces
+      const key = e.key.toLowerCase();
+      if (
+        (e.metaKey || e.ctrlKey) &&
+        !previewVersion &&
+        ((key === "f" && !e.shiftKey) || (key === "h" && e.shiftKey))
+      ) {
+        e.preventDefault();
+        setFindBar((bar) => ({
+          showReplace: key === "h" || (bar?.showReplace ?? false),
+          focusRequest: (bar?.focusRequest ?? 0) + 1,
+        }));
+      }
+    }
+    window.addEventListener("keydown", onWindowKeyDown);
+    return () => window.removeEventListener("keydown", onWindowKeyDown);
+  });
+
+  // --- Comments ---
+  // The selection is kept while the sidebar composer has focus; the mark is
+  // only added once the first comment is written. Text that already belongs
+  // to a thread is left out of the new one.
+  const getCommentRanges = (range: EditorSelection) =>
+    getFormattableSegments(blocks, range).flatMap(({ block, start, end }) =>
+      getUncommentedRanges(block.content, start, end).map((r) => ({
+        block,
+        ...r,
+      }))
+    );
+
+  const handleComment = () => {
     if (!selection || selection.isCollapsed) return;
+    if (getCommentRanges(selection).length === 0) return;
+    setCommentDraft(selection);
+  };
+
+  const submitCommentDraft = (body: string) => {
+    if (!commentDraft) return;
+    const threadId = uid();
+    const mark: Mark = { type: "comment", attrs: { threadId } };
+    const ranges = getCommentRanges(commentDraft);
+    if (ranges.length === 0) {
+      setCommentDraft(null);
+      return;
+    }
+    commit(
+      ranges.map(({ block, start, end }) =>
+        toggleMarkOperation(block, start, end, mark, (content, s, e) =>
+          setMarkInRange(content, s, e, mark)
+        )
+      )
+    );
+    setThreads((prev) => [
+      ...prev,
+      {
+        id: threadId,
+        comments: [createComment(identity.name, body)],
+        resolved: false,
+      },
+    ]);
+    setCommentDraft(null);
+    restoreSelection(commentDraft);
+  };
+
+  const handleReply = (threadId: string, body: string) => {
+    setThreads((prev) =>
+      prev.map((t) =>
+        t.id === threadId
+          ? {
+              ...t,
+              comments: [...t.comments, createComment(identity.name, body)],
+            }
+          : t
+      )
+    );
+  };
+
+  const handleResolveThread = (threadId: string, resolved: boolean) => {
+    setThreads((prev) =>
+      prev.map((t) => (t.id === threadId ? { ...t, resolved } : t))
+    );
+  };
+
+  const selectCommentAnchor = ({ blockId, start, end }: CommentAnchor) => {
+    restoreSelection({
+      start: { blockId, offset: start },
+      end: { blockId, offset: end },
+      isCollapsed: false,
+    });
+  };
+
+  // --- Suggestions ---
+  // Accepting or rejecting is an ordinary edit with its own history entry
+  const handleResolveSuggestion = (id: string | null, accept: boolean) => {
+    setBlocks(
+      resolveSuggestions(blocks, id ? new Set([id]) : null, accept),
+      true
+    );
+  };
+
+  const selectSuggestion = ({ blockId }: Suggestion) => {
+    if (flatBlocks.some((b) => b.id === blockId)) focusBlockAt(blockId, 0);
+  };
+
+  // --- Find & Replace ---
+  // All replacements from one click land in a single history entry
+  const handleFindReplace = (ops: Operation[]) => commit(ops);
+
+  // Opens any toggles hiding the match, then scrolls it into view. Stepping
+  // through matches is not an edit, so this leaves the undo history alone.
+  const revealMatch = ({ blockId }: SearchMatch) => {
+    const collapsed = getBlockPath(blocks, blockId)
+      .slice(0, -1)
+      .filter((b) => !b.isOpen);
+    if (collapsed.length > 0) {
+      receiveBlocks(
+        collapsed.reduce(
+          (tree, toggle) =>
+            updateBlockInTree(tree, toggle.id, (b) => ({ ...b, isOpen: true })),
+          blocks
+        )
+      );
+    }
+    requestAnimationFrame(() => {
+      document
+        .querySelector(`[data-block-id="${blockId}"]`)
+        ?.scrollIntoView({ block: "nearest" });
+    });
+  };
+
+  // Closing selects the current match, so typing replaces it
+  const closeFindBar = (current: SearchMatch | null) => {
+    setFindBar(null);
+    if (!current) return;
+    if (current.cell) {
+      const { row, column } = current.cell;
+      const el = document.querySelector<HTMLElement>(
+        `[data-block-id="${current.blockId}"] [data-cell="${row}:${column}"]`
+      );
+      if (!el) return;
+      el.focus();
+      const start = findDOMPosition(el, current.start);
+      const end = findDOMPosition(el, current.end);
+      window
+        .getSelection()
+        ?.setBaseAndExtent(start.node, start.offset, end.node, end.offset);
+      return;
+    }
+    if (flatBlocks.some((b) => b.id === current.blockId)) {
+      restoreSelection({
+        start: { blockId: current.blockId, offset: current.start },
+        end: { blockId: current.blockId, offset: current.end },
+        isCollapsed: false,
+      });
+    }
+  };
+
+  // Leaves spanning mode and puts a collapsed caret back into its block.
+  const collapseTo = (caret: { blockId: string; offset: number }) => {
+    setSpanningMode(false);
+    window.getSelection()?.removeAllRanges();
+    focusBlockAt(caret.blockId, caret.offset);
+  };
+
+  // Deletes a multi-block range, merging its boundary blocks, and optionally
+  // types `text` in its place.
+  const replaceRange = (
+    range: EditorSelection,
+    text = ""
+  ): { blockId: string; offset: number } => {
     saveSnapshot();
+    const startBlock = flatBlocks.find((b) => b.id === range.start.blockId);
+    const marks = startBlock
+      ? getMarksAt(startBlock.content, range.start.offset)
+      : [];
+
+    const deleted = removeRange(blocks, range);
+    let newBlocks = deleted.blocks;
+    let { caret } = deleted;
+    if (text) {
+      const typedMarks = isSuggesting
+        ? [
+            ...marks.filter(
+              (m) => m.type !== "insertion" && m.type !== "deletion"
+            ),
+            suggestionMark("insert", uid(), identity.name),
+          ]
+        : marks;
+      newBlocks = updateBlockInTree(newBlocks, caret.blockId, (b) => ({
+        ...b,
+        content: replaceContentRange(b.content, caret.offset, caret.offset, [
+          { id: uid(), text, marks: b.type === "code" ? [] : typedMarks },
+        ]),
+      }));
+      caret = { ...caret, offset: caret.offset + text.length };
+    }
 
-    const { start, end } = selection;
-    if (start.blockId === end.blockId) {
-      const blockId = start.blockId;
-      const block = flatBlocks.find((b) => b.id === blockId);
-      if (block) {
-        const newContent = toggleMarkInRange(
-          block.content,
-          start.offset,
-          end.offset,
-          mark
-        );
-        const newBlocks = updateBlockInTree(blocks, blockId, (b) => ({
+    setBlocks(newBlocks, false);
+    collapseTo(caret);
+    return caret;
+  };
+
+  // Enter over a range: the range goes, then the block splits at the caret
+  // like Enter at a caret would, the text after it moving to a new block.
+  const splitRange = (range: EditorSelection) => {
+    const startBlock = flatBlocks.find((b) => b.id === range.start.blockId);
+    if (startBlock?.type === "code") {
+      replaceRange(range, "\n");
+      return;
+    }
+    saveSnapshot();
+    const { blocks: cleared, caret } = removeRange(blocks, range);
+    const block = findNodePath(cleared, caret.blockId)?.node;
+    if (!block) return;
+
+    const [head, tail] = splitContentAt(block.content, caret.offset);
+    const isList =
+      block.type === "bullet-list" ||
+      block.type === "numbered-list" ||
+      block.type === "todo" ||
+      block.type === "toggle";
+    // An open toggle's new line goes inside it, above existing children
+    const intoToggle = block.type === "toggle" && block.isOpen;
+    const created = {
+      ...createBlock(isList && !intoToggle ? block.type : "paragraph"),
+      content: tail,
+    };
+    const newBlock = isSuggesting
+      ? withBlockSuggestion(created, {
+          id: uid(),
+          kind: "insert",
+          author: identity.name,
+        })
+      : created;
+    const newTree = intoToggle
+      ? updateBlockInTree(cleared, block.id, (b) => ({
           ...b,
-          content: newContent,
-        }));
-        setBlocks(newBlocks, false);
+          content: head,
+          children: [newBlock, ...b.children],
+        }))
+      : insertAfterInTree(
+          updateBlockInTree(cleared, block.id, (b) => ({
+            ...b,
+            content: head,
+          })),
+          block.id,
+          newBlock
+        );
+    setBlocks(newTree, false);
+    collapseTo({ blockId: newBlock.id, offset: 0 });
+  };
+
+  // Edits to a spanning range go through the model, never the browser.
+  // Text that arrives without a key of its own (dead keys, autocorrect,
+  // dictation) replaces the range like typing does.
+  useEffect(() => {
+    function onBeforeInput(e: InputEvent) {
+      if (editorRef.current?.getAttribute("contenteditable") !== "true") {
+        return;
+      }
+      e.preventDefault();
+      const range = getEditorSelection();
+      if (!range || !spansBlocks(range)) return;
+      if (
+        e.inputType === "insertText" ||
+        e.inputType === "insertReplacementText"
+      ) {
+        const text = e.data ?? e.dataTransfer?.getData("text/plain");
+        if (text) replaceRange(range, text);
+      } else if (
+        e.inputType === "insertParagraph" ||
+        e.inputType === "insertLineBreak"
+      ) {
+        splitRange(range);
+      } else if (e.inputType.startsWith("delete")) {
+        replaceRange(range);
       }
     }
+
+    document.addEventListener("beforeinput", onBeforeInput);
+    return () => document.removeEventListener("beforeinput", onBeforeInput);
+  });
+
+  // Shift+Up/Down grows the selection a whole block at a time.
+  const extendSelectionByBlock = (direction: 1 | -1) => {
+    const native = window.getSelection();
+    if (!native?.anchorNode || !native.focusNode) return;
+
+    const focusRoot = (
+      native.focusNode instanceof HTMLElement
+        ? native.focusNode
+        : native.focusNode.parentElement
+    )?.closest<HTMLElement>("[data-block-id]");
+    const index = flatBlocks.findIndex(
+      (b) => b.id === focusRoot?.dataset.blockId
+    );
+    const target = flatBlocks[index + direction];
+    if (index === -1 || !target) return;
+
+    const targetRoot = document.querySelector<HTMLElement>(
+      `[data-block-id="${target.id}"]`
+    );
+    if (!targetRoot) return;
+
+    setSpanningMode(true);
+    native.setBaseAndExtent(
+      native.anchorNode,
+      native.anchorOffset,
+      targetRoot,
+      direction === 1 ? targetRoot.childNodes.length : 0
+    );
+  };
+
+  const openLinkPopover = () => {
+    const range = getEditorSelection();
+    if (!range || range.start.blockId !== range.end.blockId) return;
+
+    const block = flatBlocks.find((b) => b.id === range.start.blockId);
+    if (!block || block.type === "code") return;
+
+    let { offset: start } = range.start;
+    let { offset: end } = range.end;
+    let href = "";
+
+    // A collapsed caret inside a link edits that whole link
+    const existing = getMarkExtent(block.content, start, "link");
+    if (
+      existing &&
+      (range.isCollapsed || (existing.start <= start && end <= existing.end))
+    ) {
+      start = existing.start;
+      end = existing.end;
+      href = existing.mark.attrs?.href || "";
+    }
+    if (start === end) return;
+
+    const rect = window.getSelection()?.getRangeAt(0).getBoundingClientRect();
+    setLinkPopover({
+      blockId: block.id,
+      start,
+      end,
+      href,
+      x: (rect?.left ?? 0) + window.scrollX,
+      y: (rect?.bottom ?? 0) + window.scrollY + 8,
+    });
+  };
+
+  const applyLink = (href: string | null) => {
+    if (!linkPopover) return;
+    const { blockId, start, end } = linkPopover;
+    const safeHref = href === null ? null : sanitizeHref(href);
+    setLinkPopover(null);
+
+    const block = findNodePath(blocks, blockId)?.node;
+    if (block && (href === null || safeHref)) {
+      const mark: Mark = safeHref
+        ? { type: "link", attrs: { href: safeHref } }
+        : { type: "link" };
+      commit([
+        toggleMarkOperation(block, start, end, mark, (content) =>
+          safeHref
+            ? setMarkInRange(content, start, end, mark)
+            : removeMarkInRange(content, start, end, "link")
+        ),
+      ]);
+    }
+    focusBlockAt(blockId, end);
   };
 
   const handleInlineBlockConversion = (cmdType: string) => {
@@ -236,6 +1304,9 @@ export default function Editor() {
     } else if (cmdType === "code") {
       newType = "code";
       newProps = { language: "TypeScript" };
+    } else if (cmdType === "todo") {
+      newType = "todo";
+      newProps = { checked: false };
     } else if (cmdType === "bullet-list") newType = "bullet-list";
     else if (cmdType === "numbered-list") newType = "numbered-list";
     else if (cmdType === "quote") newType = "quote";
@@ -256,17 +1327,34 @@ export default function Editor() {
   };
 
   const handleUpdateBlockAlign = (align: "left" | "center" | "right") => {
-    if (!focusedId) return;
+    const block = focusedId && findNodePath(blocks, focusedId)?.node;
+    if (!block) return;
+    commit([setBlockOperation(block, { props: { ...block.props, align } })]);
+  };
+
+  // Nesting remounts the block's editable element, so the caret is put back
+  // at the offset it had before the move.
+  const handleIndent = (id: string, direction: "indent" | "outdent") => {
+    const newBlocks =
+      direction === "indent"
+        ? indentBlock(blocks, id)
+        : outdentBlock(blocks, id);
+    if (newBlocks === blocks) return;
+
+    const el = document.querySelector<HTMLElement>(`[data-block-id="${id}"]`);
+    const { start } = el ? getSelectionOffsets(el) : { start: 0 };
+
     saveSnapshot();
-    const newBlocks = updateBlockInTree(blocks, focusedId, (b) => ({
-      ...b,
-      props: { ...b.props, align },
-    }));
     setBlocks(newBlocks, false);
+    focusBlockAt(id, start);
   };
 
   const handleDeleteBlock = (id: string) => {
     saveSnapshot();
+    if (isSuggesting) {
+      setBlocks(suggestBlockDeletion(blocks, id, identity.name), false);
+      return;
+    }
     const index = flatBlocks.findIndex((b) => b.id === id);
     const prev = index > 0 ? flatBlocks[index - 1] : null;
     const next = index < flatBlocks.length - 1 ? flatBlocks[index + 1] : null;
@@ -306,33 +1394,143 @@ export default function Editor() {
     }
   };
 
+  // Returns true when the key event was a formatting shortcut.
+  const handleFormattingShortcut = (e: React.KeyboardEvent) => {
+    if (!e.metaKey && !e.ctrlKey) return false;
+    const key = e.key.toLowerCase();
+    if (key === "b") {
+      e.preventDefault();
+      handleToggleMark("bold");
+      return true;
+    }
+    if (key === "i") {
+      e.preventDefault();
+      handleToggleMark("italic");
+      return true;
+    }
+    if (key === "u") {
+      e.preventDefault();
+      handleToggleMark("underline");
+      return true;
+    }
+    if (key === "e") {
+      e.preventDefault();
+      handleToggleMark("code");
+      return true;
+    }
+    if (key === "y" && e.shiftKey) {
+      e.preventDefault();
+      handleToggleMark({
+        type: "highlight",
+        attrs: { color: lastHighlight },
+      });
+      return true;
+    }
+    if (key === "k") {
+      e.preventDefault();
+      openLinkPopover();
+      return true;
+    }
+    // Alt changes `e.key` on macOS, so the physical key is checked
+    if (e.altKey && e.code === "KeyM") {
+      e.preventDefault();
+      handleComment();
+      return true;
+    }
+    return false;
+  };
+
+  // Runs before the block handlers. While a range spans blocks the browser
+  // must not edit the DOM itself, so every editing key is handled here.
+  const handleRangeKeyDown = (e: React.KeyboardEvent) => {
+    const range = getEditorSelection();
+    if (!range || !spansBlocks(range)) return;
+    e.stopPropagation();
+
+    if (e.shiftKey && (e.key === "ArrowUp" || e.key === "ArrowDown")) {
+      e.preventDefault();
+      extendSelectionByBlock(e.key === "ArrowDown" ? 1 : -1);
+      return;
+    }
+    if (handleFormattingShortcut(e)) return;
+
+    if (e.metaKey || e.ctrlKey) {
+      // Undo and redo act on the model; the range would be stale after them.
+      if (e.key.toLowerCase() === "z") collapseTo(range.start);
+      return;
+    }
+
+    // A composition cannot be cancelled once it starts, so the range goes
+    // first and the input method composes at a caret in a single block
+    if (e.nativeEvent.isComposing || e.key === "Process") {
+      const caret = replaceRange(range);
+      const el = document.querySelector<HTMLElement>(
+        `[data-block-id="${caret.blockId}"]`
+      );
+      if (el) {
+        el.focus();
+        setCaretOffset(el, caret.offset);
+      }
+      return;
+    }
+
+    // Printable keys are left to `beforeinput`, which sees the actual text
+    if (e.key === "Enter") {
+      e.preventDefault();
+      splitRange(range);
+    } else if (e.key === "Backspace" || e.key === "Delete") {
+      e.preventDefault();
+      replaceRange(range);
+    } else if (e.key.startsWith("Arrow") || e.key === "Escape") {
+      e.preventDefault();
+      collapseTo(
+        e.key === "ArrowLeft" || e.key === "ArrowUp" ? range.start : range.end
+      );
+    } else if (e.key === "Tab") {
+      e.preventDefault();
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent, id: string) => {
     const currentIndex = flatBlocks.findIndex((b) => b.id === id);
     const block = flatBlocks[currentIndex];
+    forwardDeleteRef.current = e.key === "Delete";
 
     // Shortcuts
-    if (e.metaKey || e.ctrlKey) {
-      const key = e.key.toLowerCase();
-      if (key === "b") {
-        e.preventDefault();
-        handleToggleMark("bold");
-        return;
-      }
-      if (key === "i") {
-        e.preventDefault();
-        handleToggleMark("italic");
-        return;
-      }
-      if (key === "u") {
-        e.preventDefault();
-        handleToggleMark("underline");
-        return;
-      }
-      if (key === "e") {
-        e.preventDefault();
-        handleToggleMark("code");
-        return;
-      }
+    if (handleFormattingShortcut(e)) return;
+
+    // Fold / unfold: Cmd+Alt+[ and Cmd+Alt+], or Cmd+Enter on a toggle
+    if (
+      (e.metaKey || e.ctrlKey) &&
+      e.altKey &&
+      (e.code === "BracketLeft" || e.code === "BracketRight")
+    ) {
+      e.preventDefault();
+      handleFold(id, e.code === "BracketRight");
+      return;
+    }
+    if (
+      (e.metaKey || e.ctrlKey) &&
+      e.key === "Enter" &&
+      block.type === "toggle"
+    ) {
+      e.preventDefault();
+      handleFold(id, !block.isOpen);
+      return;
+    }
+    // Cmd+Enter checks or unchecks a to-do
+    if (
+      (e.metaKey || e.ctrlKey) &&
+      e.key === "Enter" &&
+      block.type === "todo"
+    ) {
+      e.preventDefault();
+      commit([
+        setBlockOperation(block, {
+          props: { ...block.props, checked: !block.props.checked },
+        }),
+      ]);
+      return;
     }
 
     // Slash Menu
@@ -370,6 +1568,18 @@ export default function Editor() {
       }
     }
 
+    if (e.shiftKey && (e.key === "ArrowUp" || e.key === "ArrowDown")) {
+      e.preventDefault();
+      extendSelectionByBlock(e.key === "ArrowDown" ? 1 : -1);
+      return;
+    }
+
+    if (e.key === "Tab") {
+      e.preventDefault();
+      handleIndent(id, e.shiftKey ? "outdent" : "indent");
+      return;
+    }
+
     if (e.key === "ArrowUp") {
       e.preventDefault();
       if (currentIndex > 0) setFocusedId(flatBlocks[currentIndex - 1].id);
@@ -386,7 +1596,10 @@ export default function Editor() {
 
       const contentLen = getTextLength(block.content);
       const isList =
-        block.type === "bullet-list" || block.type === "numbered-list";
+        block.type === "bullet-list" ||
+        block.type === "numbered-list" ||
+        block.type === "todo" ||
+        block.type === "toggle";
 
       if (isList && contentLen === 0) {
         const newBlocks = updateBlockInTree(blocks, id, (b) => ({
@@ -397,9 +1610,23 @@ export default function Editor() {
         return;
       }
 
-      const nextType = isList ? block.type : "paragraph";
-      const newBlock = createBlock(nextType);
-      const newTree = insertAfterInTree(blocks, id, newBlock);
+      // An open toggle's new line goes inside it, above existing children
+      const intoToggle = block.type === "toggle" && block.isOpen;
+      const nextType = isList && !intoToggle ? block.type : "paragraph";
+      const created = createBlock(nextType);
+      const newBlock = isSuggesting
+        ? withBlockSuggestion(created, {
+            id: uid(),
+            kind: "insert",
+            author: identity.name,
+          })
+        : created;
+      const newTree = intoToggle
+        ? updateBlockInTree(blocks, id, (b) => ({
+            ...b,
+            children: [newBlock, ...b.children],
+          }))
+        : insertAfterInTree(blocks, id, newBlock);
       setBlocks(newTree, false);
       setFocusedId(newBlock.id);
       setSelection({
@@ -410,7 +1637,25 @@ export default function Editor() {
     }
 
     if (e.key === "Backspace") {
+      if (undoInputRule()) {
+        e.preventDefault();
+        return;
+      }
+
       const length = getTextLength(block.content);
+
+      // An empty toggle turns into text instead of taking its children along
+      if (length === 0 && block.type === "toggle") {
+        e.preventDefault();
+        saveSnapshot();
+        const newBlocks = updateBlockInTree(blocks, id, (b) => ({
+          ...b,
+          type: "paragraph",
+        }));
+        setBlocks(newBlocks, false);
+        return;
+      }
+
       if (length === 0 && blocks.length > 1) {
         e.preventDefault();
         saveSnapshot();
@@ -420,7 +1665,9 @@ export default function Editor() {
           const prevBlock = flatBlocks[prevIndex];
           const prevLength = getTextLength(prevBlock.content);
 
-          const newTree = deleteBlockFromTree(blocks, id);
+          const newTree = isSuggesting
+            ? suggestBlockDeletion(blocks, id, identity.name)
+            : deleteBlockFromTree(blocks, id);
           setBlocks(newTree, false);
 
           setFocusedId(prevBlock.id);
@@ -434,6 +1681,149 @@ export default function Editor() {
     }
   };
 
+  const handlePaste = (e: React.ClipboardEvent, id: string) => {
+    // Screenshots and copied image files (spreadsheets also put an image of
+    // the cells on the clipboard, next to the text)
+    const images = readImageFiles(e.clipboardData);
+    if (images.length > 0 && !e.clipboardData.getData("text/plain")) {
+      e.preventDefault();
+      insertFiles(images, id, "after");
+      return;
+    }
+
+    // Single-line plain text needs no conversion; let the browser insert it.
+    const slice = readClipboard(e.clipboardData);
+    if (!slice) return;
+
+    const block = findNodePath(blocks, id)?.node;
+    if (!block) return;
+
+    e.preventDefault();
+    if (slice.blocks.length === 0) return;
+
+    const { start, end } = getSelectionOffsets(e.currentTarget as HTMLElement);
+    saveSnapshot();
+    if (isSuggesting && start < end) {
+      const { blocks: cleared, caret } = removeRange(blocks, {
+        start: { blockId: id, offset: start },
+        end: { blockId: id, offset: end },
+        isCollapsed: false,
+      });
+      const target = findNodePath(cleared, id)?.node ?? block;
+      insertSlice(cleared, target, caret.offset, caret.offset, slice);
+      return;
+    }
+    insertSlice(blocks, block, start, end, slice);
+  };
+
+  // Pasting over a multi-block range first deletes it, in the same history
+  // entry, then pastes at the merged caret.
+  const handleRangePaste = (e: React.ClipboardEvent) => {
+    const range = getEditorSelection();
+    if (!range || !spansBlocks(range)) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const text = e.clipboardData.getData("text/plain");
+    const slice: ClipboardSlice = readClipboard(e.clipboardData) ?? {
+      blocks: text ? [createBlock("paragraph", text)] : [],
+      inline: true,
+    };
+
+    saveSnapshot();
+    const { blocks: cleared, caret } = removeRange(blocks, range);
+    setSpanningMode(false);
+    window.getSelection()?.removeAllRanges();
+
+    const block = findNodePath(cleared, caret.blockId)?.node;
+    if (!block || slice.blocks.length === 0) {
+      setBlocks(cleared, false);
+      focusBlockAt(caret.blockId, caret.offset);
+      return;
+    }
+    insertSlice(cleared, block, caret.offset, caret.offset, slice);
+  };
+
+  // Inserts a clipboard slice over [start, end) of `block` within `tree`.
+  const insertSlice = (
+    tree: Block[],
+    block: Block,
+    start: number,
+    end: number,
+    slice: ClipboardSlice
+  ) => {
+    const { id } = block;
+    const pasted = isSuggesting
+      ? suggestInsertedBlocks(slice.blocks, identity.name, slice.inline)
+      : slice.blocks;
+
+    // Inline slices are spliced into the current block at the caret.
+    const [first] = pasted;
+    if (slice.inline) {
+      const content = replaceContentRange(
+        block.content,
+        start,
+        end,
+        first.content
+      );
+      setBlocks(
+        updateBlockInTree(tree, id, (b) => ({ ...b, content })),
+        false
+      );
+      focusBlockAt(id, start + getTextLength(first.content));
+      return;
+    }
+
+    // Otherwise the block is split at the caret and the pasted blocks go in
+    // between its head and tail.
+    const [head] = splitContentAt(block.content, start);
+    const [, tail] = splitContentAt(block.content, end);
+
+    let last = pasted[pasted.length - 1];
+    const caretOffset = getTextLength(last.content);
+    const insertedBlocks = [...pasted];
+    if (getTextLength(tail) > 0) {
+      if (
+        last.type === "code" ||
+        last.type === "divider" ||
+        last.type === "table" ||
+        last.type === "image" ||
+        last.type === "diagram"
+      ) {
+        insertedBlocks.push({ ...createBlock(block.type), content: tail });
+      } else {
+        last = {
+          ...last,
+          content: mergeSimilarNodes([...last.content, ...tail]),
+        };
+        insertedBlocks[insertedBlocks.length - 1] = last;
+      }
+    }
+
+    let newTree = updateBlockInTree(tree, id, (b) => ({
+      ...b,
+      content: head,
+    }));
+    let anchorId = id;
+    for (const inserted of insertedBlocks) {
+      newTree = insertAfterInTree(newTree, anchorId, inserted);
+      anchorId = inserted.id;
+    }
+
+    // Pasting into an empty paragraph replaces it.
+    if (
+      !isSuggesting &&
+      getTextLength(head) === 0 &&
+      block.type === "paragraph" &&
+      block.children.length === 0
+    ) {
+      newTree = deleteBlockFromTree(newTree, id);
+    }
+
+    setBlocks(newTree, false);
+    focusBlockAt(last.id, caretOffset);
+  };
+
   const applySlashCommand = (cmdType: string) => {
     if (!slashMenu.blockId) return;
     saveSnapshot();
@@ -453,10 +1843,17 @@ export default function Editor() {
     } else if (cmdType === "code") {
       newType = "code";
       newProps = { language: "TypeScript" };
+    } else if (cmdType === "todo") {
+      newType = "todo";
+      newProps = { checked: false };
     } else if (cmdType === "bullet-list") newType = "bullet-list";
     else if (cmdType === "numbered-list") newType = "numbered-list";
     else if (cmdType === "quote") newType = "quote";
     else if (cmdType === "divider") newType = "divider";
+    else if (cmdType === "table") {
+      newType = "table";
+      newProps = tableProps(createTable(3, 3));
+    }
 
     const newBlocks = updateBlockInTree(blocks, slashMenu.blockId, (b) => {
       const updated = {
@@ -481,6 +1878,66 @@ export default function Editor() {
     }, 0);
   };
 
+  // Adds a block for each pasted or dropped file next to `anchorId`: images
+  // are stored locally and referenced, `.drawio` files become diagrams. An
+  // empty paragraph there is replaced by them.
+  const insertFiles = async (
+    files: File[],
+    anchorId: string,
+    side: "before" | "after"
+  ) => {
+    let created: Block[];
+    try {
+      const converted = await Promise.all(
+        files.map(async (file) => {
+          if (!isDiagramFile(file)) {
+            return createImageBlock({ imageId: await saveImage(file) });
+          }
+          const xml = await readDiagramFile(await file.text());
+          return xml ? createDiagramBlock(xml) : null;
+        })
+      );
+      created = converted.filter((block) => block !== null);
+    } catch (err) {
+      console.warn("Could not insert files", err);
+      return;
+    }
+    if (created.length === 0) return;
+    // The document may have changed while the files were being stored
+    const latest = getLatestBlocks();
+    const anchor = findNodePath(latest, anchorId)?.node;
+    const at = locateBlock(latest, anchorId);
+    if (!anchor || !at) return;
+
+    const inserted = created.map((block) =>
+      isSuggesting
+        ? withBlockSuggestion(block, {
+            id: uid(),
+            kind: "insert",
+            author: identity.name,
+          })
+        : block
+    );
+    const replacesAnchor =
+      !isSuggesting &&
+      anchor.type === "paragraph" &&
+      getTextLength(anchor.content) === 0 &&
+      anchor.children.length === 0;
+    const index = at.index + (side === "after" && !replacesAnchor ? 1 : 0);
+
+    commit([
+      ...(replacesAnchor
+        ? [{ type: "delete_block" as const, at, block: anchor }]
+        : []),
+      ...inserted.map((block, i) => ({
+        type: "insert_block" as const,
+        at: { parentId: at.parentId, index: index + i },
+        block,
+      })),
+    ]);
+    focusBlockAt(inserted[inserted.length - 1].id, 0);
+  };
+
   const handleDragStart = (id: string) => setDragId(id);
   const handleDragOver = (e: React.DragEvent, id: string) => {
     e.preventDefault();
@@ -489,106 +1946,300 @@ export default function Editor() {
     const pos = y < rect.height / 2 ? "top" : "bottom";
     setDropTarget({ id, pos });
   };
-  const handleDrop = (targetId: string) => {
+  const handleDrop = (e: React.DragEvent, targetId: string) => {
+    const files = dragId
+      ? []
+      : [
+          ...readImageFiles(e.dataTransfer),
+          ...Array.from(e.dataTransfer.files).filter(isDiagramFile),
+        ];
+    if (files.length > 0) {
+      e.preventDefault();
+      insertFiles(
+        files,
+        targetId,
+        dropTarget?.pos === "top" ? "before" : "after"
+      );
+      setDropTarget(null);
+      return;
+    }
     if (!dragId || !dropTarget) return;
     if (dragId === targetId) {
       setDragId(null);
       setDropTarget(null);
       return;
     }
-    saveSnapshot();
-    const result = findNodePath(blocks, dragId);
-    if (!result) return;
-    const sourceBlock = result.node;
-    let newTree = deleteBlockFromTree(blocks, dragId);
-
-    if (dropTarget.pos === "top") {
-      newTree = insertBeforeInTree(newTree, targetId, sourceBlock);
-    } else {
-      newTree = insertAfterInTree(newTree, targetId, sourceBlock);
-    }
-
-    setBlocks(newTree, false);
+    const op = moveBlockOperation(
+      blocks,
+      dragId,
+      targetId,
+      dropTarget.pos === "top" ? "before" : "after"
+    );
+    if (op) commit([op]);
     setDragId(null);
     setDropTarget(null);
   };
 
+  // Restoring replaces the document as one undoable step
+  const handleRestoreVersion = (version: DocumentVersion) => {
+    setPreviewVersionId(null);
+    setBlocks(version.blocks, true);
+    const first = version.blocks[0];
+    if (first) focusBlockAt(first.id, 0);
+  };
+
   const filteredCommands = COMMANDS.filter((c) =>
     c.label.toLowerCase().includes(slashMenu.query.toLowerCase())
   );
 
-  let listCounter = 0;
+  const listNumbers = getListNumbers(blocks);
   const currentBlock = flatBlocks.find((b) => b.id === focusedId);
   const currentType = currentBlock?.type || "paragraph";
 
+  // Nested blocks derive their own focus props from this
+  const focus: BlockFocus = {
+    blockId: focusedId,
+    caretOffset:
+      selection && selection.start.blockId === focusedId
+        ? selection.start.offset
+        : null,
+    previewType,
+    isSlashMenuOpen: slashMenu.open && slashMenu.blockId === focusedId,
+    isRangeSelection:
+      selection !== null &&
+      !selection.isCollapsed &&
+      selection.start.blockId === focusedId,
+    pathIds: focusPathIds,
+  };
+
+  // Memoised blocks skip re-rendering when only their handlers change, so
+  // they get wrappers that always call this render's handlers. Otherwise a
+  // block would keep building on the tree from its last render, and its next
+  // edit would undo anything changed since (a collaborator's edit, a to-do
+  // ticked while the caret was elsewhere).
+  const handlers: BlockHandlers = {
+    onUpdateContent: handleUpdateContent,
+    onUpdateMetadata: handleUpdateMetadata,
+    onUpdateCell: handleUpdateCell,
+    onSelectionChange: handleSelectionChange,
+    onDeleteBlock: handleDeleteBlock,
+    onKeyDown: handleKeyDown,
+    onPaste: handlePaste,
+    onDragStart: handleDragStart,
+    onDragOver: handleDragOver,
+    onDrop: handleDrop,
+  };
+  const handlersRef = useRef(handlers);
+  useLayoutEffect(() => {
+    handlersRef.current = handlers;
+  });
+  const [blockHandlers] = useState(
+    (): BlockHandlers => ({
+      onUpdateContent: (...args) =>
+        handlersRef.current.onUpdateContent(...args),
+      onUpdateMetadata: (...args) =>
+        handlersRef.current.onUpdateMetadata(...args),
+      onUpdateCell: (...args) => handlersRef.current.onUpdateCell(...args),
+      onSelectionChange: (...args) =>
+        handlersRef.current.onSelectionChange(...args),
+      onDeleteBlock: (...args) => handlersRef.current.onDeleteBlock(...args),
+      onKeyDown: (...args) => handlersRef.current.onKeyDown(...args),
+      onPaste: (...args) => handlersRef.current.onPaste(...args),
+      onDragStart: (...args) => handlersRef.current.onDragStart(...args),
+      onDragOver: (...args) => handlersRef.current.onDragOver(...args),
+      onDrop: (...args) => handlersRef.current.onDrop(...args),
+    })
+  );
+
   return (
-    <div className={`editor-container ${isTyping ? "typing-mode" : ""}`}>
-      {blocks.map((block, index) => {
-        if (block.type === "numbered-list") {
-          listCounter++;
-        } else {
-          listCounter = 0;
-        }
+    <>
+      <button
+        className={`history-toggle toolbar-btn ${
+          isHistoryOpen ? "active" : ""
+        }`}
+        title="Version history"
+        onClick={() => {
+          setIsHistoryOpen((open) => !open);
+          setPreviewVersionId(null);
+        }}
+      >
+        <History size={16} />
+      </button>
+
+      <button
+        className={`suggesting-toggle toolbar-btn ${
+          isSuggesting ? "active" : ""
+        }`}
+        title={isSuggesting ? "Stop suggesting" : "Suggest edits"}
+        onClick={() => setIsSuggesting((on) => !on)}
+      >
+        <PenLine size={16} />
+      </button>
+
+      {findBar && !previewVersion && (
+        <FindBar
+          blocks={blocks}
+          showReplace={findBar.showReplace}
+          suggestAs={isSuggesting ? identity.name : undefined}
+          focusRequest={findBar.focusRequest}
+          onToggleReplace={() =>
+            setFindBar(
+              (bar) => bar && { ...bar, showReplace: !bar.showReplace }
+            )
+          }
+          onReplace={handleFindReplace}
+          onReveal={revealMatch}
+          onClose={closeFindBar}
+        />
+      )}
 
-        const isMenuOpenForBlock =
-          slashMenu.open && slashMenu.blockId === block.id;
-
-        const isRangeSelection =
-          focusedId === block.id &&
-          selection !== null &&
-          !selection.isCollapsed &&
-          selection.start.blockId === block.id;
-
-        return (
-          <BlockComponent
-            key={block.id}
-            block={block}
-            index={index}
-            listNumber={listCounter}
-            isSelected={false}
-            isFocused={focusedId === block.id}
-            caretOffset={
-              focusedId === block.id && selection?.start.blockId === block.id
-                ? selection.start.offset
-                : null
-            }
-            // Pass Preview Type
-            previewType={focusedId === block.id ? previewType : null}
-            isSlashMenuOpen={isMenuOpenForBlock}
-            isRangeSelection={isRangeSelection}
-            dropTarget={dropTarget}
-            onUpdateContent={handleUpdateContent}
-            onUpdateMetadata={handleUpdateMetadata}
-            onSelectionChange={handleSelectionChange}
-            onDeleteBlock={handleDeleteBlock}
-            onKeyDown={handleKeyDown}
-            onDragStart={handleDragStart}
-            onDragOver={handleDragOver}
-            onDrop={handleDrop}
-          />
-        );
-      })}
-
-      {slashMenu.open && (
-        <SlashMenu
-          position={{ x: slashMenu.x, y: slashMenu.y }}
-          query={slashMenu.query}
-          commands={filteredCommands}
-          selectedIndex={slashMenu.selectedIndex}
-          onSelect={(cmd) => applySlashCommand(cmd.type)}
-          onClose={() => setSlashMenu((s) => ({ ...s, open: false }))}
+      {isHistoryOpen && (
+        <VersionPanel
+          versions={versions}
+          previewId={previewVersionId}
+          onPreview={setPreviewVersionId}
+          onCreateCheckpoint={createCheckpoint}
+          onClose={() => {
+            setIsHistoryOpen(false);
+            setPreviewVersionId(null);
+          }}
         />
       )}
 
-      {selection && !selection.isCollapsed && (
-        <InlineToolbar
-          onConvertBlock={handleInlineBlockConversion}
-          onToggleMark={handleToggleMark}
-          onUpdateBlockAlign={handleUpdateBlockAlign}
-          currentType={currentType}
-          onPreview={(type) => setPreviewType(type)}
+      {!previewVersion &&
+        (suggestions.length > 0 ||
+          commentDraft ||
+          anchoredThreads.length > 0) && (
+          <div className="editor-margin">
+            {suggestions.length > 0 && (
+              <SuggestionPanel
+                suggestions={suggestions}
+                onResolve={handleResolveSuggestion}
+                onSelect={selectSuggestion}
+              />
+            )}
+            {(commentDraft || anchoredThreads.length > 0) && (
+              <CommentSidebar
+                threads={anchoredThreads}
+                activeId={commentDraft ? null : activeThreadId}
+                isDrafting={commentDraft !== null}
+                onSubmitDraft={submitCommentDraft}
+                onCancelDraft={() => {
+                  restoreSelection(commentDraft);
+                  setCommentDraft(null);
+                }}
+                onReply={handleReply}
+                onResolve={handleResolveThread}
+                onSelectThread={selectCommentAnchor}
+              />
+            )}
+          </div>
+        )}
+
+      {restoreError && (
+        <div className="restore-error-banner">
+          <span>
+            Your saved note could not be opened ({restoreError}). Changes are
+            not being saved, so the stored copy is left as it is.
+          </span>
+        </div>
+      )}
+
+      {previewVersion ? (
+        <VersionPreview
+          version={previewVersion}
+          onRestore={handleRestoreVersion}
+          onExit={() => setPreviewVersionId(null)}
         />
+      ) : (
+        <CommentContext value={commentContext}>
+          <div
+            ref={editorRef}
+            className={`editor-container ${isTyping ? "typing-mode" : ""} ${
+              isSpanning ? "spanning-selection" : ""
+            }`}
+            contentEditable={isSpanning}
+            suppressContentEditableWarning
+            onKeyDownCapture={handleRangeKeyDown}
+            onPasteCapture={handleRangePaste}
+          >
+            {blocks.map((block, index) => {
+              const isMenuOpenForBlock =
+                slashMenu.open && slashMenu.blockId === block.id;
+
+              const isRangeSelection =
+                focusedId === block.id &&
+                selection !== null &&
+                !selection.isCollapsed &&
+                selection.start.blockId === block.id;
+
+              return (
+                <BlockComponent
+                  key={block.id}
+                  block={block}
+                  index={index}
+                  listNumber={listNumbers[index]}
+                  isSelected={false}
+                  isFocused={focusedId === block.id}
+                  caretOffset={
+                    focusedId === block.id &&
+                    selection?.start.blockId === block.id
+                      ? selection.start.offset
+                      : null
+                  }
+                  // Pass Preview Type
+                  previewType={focusedId === block.id ? previewType : null}
+                  isSlashMenuOpen={isMenuOpenForBlock}
+                  isRangeSelection={isRangeSelection}
+                  focus={focus}
+                  peerDecorations={peerDecorations}
+                  peerBlockIds={peerBlockIds}
+                  dropTarget={dropTarget}
+                  {...blockHandlers}
+                />
+              );
+            })}
+
+            {slashMenu.open && (
+              <SlashMenu
+                position={{ x: slashMenu.x, y: slashMenu.y }}
+                query={slashMenu.query}
+                commands={filteredCommands}
+                selectedIndex={slashMenu.selectedIndex}
+                onSelect={(cmd) => applySlashCommand(cmd.type)}
+                onClose={() => setSlashMenu((s) => ({ ...s, open: false }))}
+              />
+            )}
+
+            {linkPopover && (
+              <LinkPopover
+                position={{ x: linkPopover.x, y: linkPopover.y }}
+                initialHref={linkPopover.href}
+                onApply={(href) => applyLink(href)}
+                onRemove={() => applyLink(null)}
+                onClose={() => {
+                  setLinkPopover(null);
+                  focusBlockAt(linkPopover.blockId, linkPopover.end);
+                }}
+              />
+            )}
+
+            {selection && !selection.isCollapsed && (
+              <InlineToolbar
+                onConvertBlock={handleInlineBlockConversion}
+                onToggleMark={handleToggleMark}
+                onUpdateBlockAlign={handleUpdateBlockAlign}
+                onLink={openLinkPopover}
+                onComment={handleComment}
+                onHighlight={handleHighlight}
+                lastHighlight={lastHighlight}
+                currentType={currentType}
+                onPreview={(type) => setPreviewType(type)}
+              />
+            )}
+          </div>
+        </CommentContext>
       )}
-    </div>
+    </>
   );
 }
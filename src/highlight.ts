@@ -0,0 +1,367 @@
+// Syntax highlighting for code blocks. Tokens are drawn with the CSS Custom
+// Highlight API: the text stays one plain text node in the DOM and nothing
+// is stored in the model, so caret handling (`setCaretOffset`,
+// `getCaretOffset`) and parsing see exactly the text the user typed.
+
+// --- 1. GRAMMARS ---
+
+export type TokenType =
+  | "keyword"
+  | "literal"
+  | "string"
+  | "comment"
+  | "number"
+  | "function"
+  | "type"
+  | "property"
+  | "tag"
+  | "attribute";
+
+export interface Token {
+  type: TokenType;
+  start: number;
+  end: number;
+}
+
+// `word` and `call` tokens are classified by the grammar's word lists.
+type RuleType = TokenType | "word" | "call";
+
+interface Grammar {
+  rules: [RuleType, RegExp][];
+  keywords?: Set<string>;
+  literals?: Set<string>;
+  caseInsensitive?: boolean;
+}
+
+const words = (list: string) => new Set(list.split(" "));
+
+const C_COMMENTS: [RuleType, RegExp][] = [
+  ["comment", /\/\/[^\n]*/],
+  ["comment", /\/\*[\s\S]*?(?:\*\/|$)/],
+];
+
+const QUOTED: [RuleType, RegExp][] = [
+  ["string", /"(?:\\[\s\S]|[^"\\\n])*"?/],
+  ["string", /'(?:\\[\s\S]|[^'\\\n])*'?/],
+];
+
+const NUMBER: [RuleType, RegExp] = [
+  "number",
+  /\b(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)n?\b/i,
+];
+
+// Identifiers followed by `(` are calls; capitalised ones are types.
+const IDENTIFIERS: [RuleType, RegExp][] = [
+  ["call", /[A-Za-z_$][\w$]*(?=\s*\()/],
+  ["word", /[A-Za-z_$][\w$]*/],
+];
+
+const JS_KEYWORDS =
+  "async await break case catch class const continue debugger default " +
+  "delete do else export extends finally for from function if import in " +
+  "instanceof let new of return static super switch throw try typeof var " +
+  "void while with yield";
+
+const JAVASCRIPT: Grammar = {
+  rules: [
+    ...C_COMMENTS,
+    ...QUOTED,
+    ["string", /`(?:\\[\s\S]|[^`\\])*`?/],
+    NUMBER,
+    ...IDENTIFIERS,
+  ],
+  keywords: words(JS_KEYWORDS),
+  literals: words("true false null undefined this NaN Infinity"),
+};
+
+const TYPESCRIPT: Grammar = {
+  ...JAVASCRIPT,
+  keywords: words(
+    JS_KEYWORDS +
+      " abstract as asserts declare enum implements interface is keyof" +
+      " namespace private protected public readonly satisfies type"
+  ),
+  literals: words(
+    "true false null undefined this NaN Infinity any boolean never number" +
+      " object string symbol unknown bigint"
+  ),
+};
+
+const PYTHON: Grammar = {
+  rules: [
+    ["comment", /#[^\n]*/],
+    ["string", /[rbfu]{0,2}"""[\s\S]*?(?:"""|$)/i],
+    ["string", /[rbfu]{0,2}'''[\s\S]*?(?:'''|$)/i],
+    ["string", /[rbfu]{0,2}"(?:\\[\s\S]|[^"\\\n])*"?/i],
+    ["string", /[rbfu]{0,2}'(?:\\[\s\S]|[^'\\\n])*'?/i],
+    ["function", /@[\w.]+/],
+    NUMBER,
+    ...IDENTIFIERS,
+  ],
+  keywords: words(
+    "and as assert async await break class continue def del elif else " +
+      "except finally for from global if import in is lambda nonlocal not " +
+      "or pass raise return try while with yield match case"
+  ),
+  literals: words("True False None self cls"),
+};
+
+const RUST: Grammar = {
+  rules: [
+    ...C_COMMENTS,
+    ["string", /b?r#*"[\s\S]*?(?:"#*|$)/],
+    ["string", /b?"(?:\\[\s\S]|[^"\\])*"?/],
+    ["string", /b?'(?:\\.|[^'\\\n])'/],
+    ["type", /'[A-Za-z_]\w*/],
+    ["function", /[A-Za-z_]\w*!/],
+    [
+      "number",
+      /\b\d[\d_]*(?:\.\d+)?(?:[iu](?:8|16|32|64|128|size)|f32|f64)?\b/,
+    ],
+    NUMBER,
+    ...IDENTIFIERS,
+  ],
+  keywords: words(
+    "as async await break const continue crate dyn else enum extern fn " +
+      "for if impl in let loop match mod move mut pub ref return static " +
+      "struct super trait type unsafe use where while"
+  ),
+  literals: words("true false self Self None Some Ok Err"),
+};
+
+const SQL: Grammar = {
+  rules: [
+    ["comment", /--[^\n]*/],
+    ["comment", /\/\*[\s\S]*?(?:\*\/|$)/],
+    ["string", /'(?:''|[^'])*'?/],
+    ["property", /"(?:""|[^"])*"?/],
+    NUMBER,
+    ...IDENTIFIERS,
+  ],
+  keywords: words(
+    "add all alter and as asc begin between by case check column commit " +
+      "constraint create cross database default delete desc distinct drop " +
+      "else end exists foreign from full group having if in index inner " +
+      "insert into is join key left like limit not offset on or order " +
+      "outer primary references right rollback select set table then " +
+      "transaction union unique update values view when where with " +
+      "int integer bigint text varchar char boolean date timestamp serial"
+  ),
+  literals: words("null true false"),
+  caseInsensitive: true,
+};
+
+const JSON_GRAMMAR: Grammar = {
+  rules: [
+    ["property", /"(?:\\.|[^"\\\n])*"(?=\s*:)/],
+    ["string", /"(?:\\.|[^"\\\n])*"?/],
+    ["number", /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/i],
+    ["word", /[A-Za-z]+/],
+  ],
+  literals: words("true false null"),
+};
+
+const CSS_GRAMMAR: Grammar = {
+  rules: [
+    ["comment", /\/\*[\s\S]*?(?:\*\/|$)/],
+    ...QUOTED,
+    ["keyword", /@[\w-]+/],
+    ["number", /#[\da-f]{3,8}\b/i],
+    ["type", /[.#][A-Za-z_-][\w-]*/],
+    // `name:` inside a declaration, not a `:hover` selector before `{`
+    ["property", /[\w-]+(?=\s*:[^{};]*[;}])/],
+    ["number", /-?\d*\.?\d+(?:%|[a-z]+)?/i],
+    ["keyword", /!important/],
+    ["function", /[\w-]+(?=\()/],
+  ],
+};
+
+const HTML_GRAMMAR: Grammar = {
+  rules: [
+    ["comment", /<!--[\s\S]*?(?:-->|$)/],
+    ["keyword", /<!doctype[^>]*>?/i],
+    ["tag", /<\/?[A-Za-z][\w-]*|\/?>/],
+    ["attribute", /[A-Za-z_:][\w:.-]*(?=\s*=)/],
+    ...QUOTED,
+    ["literal", /&#?\w+;/],
+  ],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  TypeScript: TYPESCRIPT,
+  JavaScript: JAVASCRIPT,
+  Python: PYTHON,
+  HTML: HTML_GRAMMAR,
+  CSS: CSS_GRAMMAR,
+  SQL,
+  Rust: RUST,
+  JSON: JSON_GRAMMAR,
+};
+
+// --- 2. TOKENIZER ---
+
+interface CompiledGrammar {
+  grammar: Grammar;
+  pattern: RegExp;
+}
+
+const compiled = new Map<string, CompiledGrammar>();
+
+// All rules become one sticky regex with a group per rule, so every token
+// costs a single `exec`. A final catch-all skips anything unmatched.
+function compile(language: string): CompiledGrammar | null {
+  const cached = compiled.get(language);
+  if (cached) return cached;
+  const grammar = GRAMMARS[language];
+  if (!grammar) return null;
+
+  const flags = grammar.rules.some(([, re]) => re.flags.includes("i"))
+    ? "yi"
+    : "y";
+  const source = [
+    ...grammar.rules.map(([, re]) => `(${re.source})`),
+    "(\\s+|[\\s\\S])",
+  ].join("|");
+  const entry = { grammar, pattern: new RegExp(source, flags) };
+  compiled.set(language, entry);
+  return entry;
+}
+
+function classifyWord(
+  grammar: Grammar,
+  word: string,
+  isCall: boolean
+): TokenType | null {
+  const key = grammar.caseInsensitive ? word.toLowerCase() : word;
+  if (grammar.keywords?.has(key)) return "keyword";
+  if (grammar.literals?.has(key)) return "literal";
+  if (isCall) return "function";
+  if (/^[A-Z][a-z]/.test(word) && !grammar.caseInsensitive) return "type";
+  return null;
+}
+
+/**
+ * Splits `text` into highlighted tokens. Plain text (whitespace,
+ * identifiers, punctuation) produces no tokens. Unknown languages are not
+ * highlighted.
+ */
+export function tokenize(text: string, language: string): Token[] {
+  const entry = compile(language);
+  if (!entry) return [];
+  const { grammar, pattern } = entry;
+  const tokens: Token[] = [];
+
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < text.length && (match = pattern.exec(text))) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (start === end) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const ruleIndex = match.findIndex((group, i) => i > 0 && group);
+    const rule = grammar.rules[ruleIndex - 1]?.[0];
+    const type =
+      rule === "word" || rule === "call"
+        ? classifyWord(grammar, match[0], rule === "call")
+        : rule;
+    if (type) tokens.push({ type, start, end });
+  }
+  return tokens;
+}
+
+// --- 3. DECORATING ---
+
+const TOKEN_TYPES: TokenType[] = [
+  "keyword",
+  "literal",
+  "string",
+  "comment",
+  "number",
+  "function",
+  "type",
+  "property",
+  "tag",
+  "attribute",
+];
+
+// The ranges each code block contributed, so they can be swapped out when
+// the block changes or unmounts.
+const blockRanges = new Map<string, Map<TokenType, Range[]>>();
+
+function getHighlight(type: TokenType): Highlight | null {
+  if (typeof CSS === "undefined" || !("highlights" in CSS)) return null;
+  const name = `code-${type}`;
+  let highlight = CSS.highlights.get(name);
+  if (!highlight) {
+    highlight = new Highlight();
+    CSS.highlights.set(name, highlight);
+  }
+  return highlight;
+}
+
+export function clearCodeHighlights(blockId: string) {
+  const previous = blockRanges.get(blockId);
+  if (!previous) return;
+  for (const [type, ranges] of previous) {
+    const highlight = getHighlight(type);
+    ranges.forEach((range) => highlight?.delete(range));
+  }
+  blockRanges.delete(blockId);
+}
+
+/**
+ * Highlights the text rendered inside `root`. Tokens are mapped onto the
+ * element's text nodes in one pass; the DOM itself is left untouched.
+ */
+export function highlightCode(
+  blockId: string,
+  root: HTMLElement,
+  language: string
+) {
+  clearCodeHighlights(blockId);
+  if (!getHighlight("keyword")) return;
+
+  const text = root.textContent ?? "";
+  const tokens = tokenize(text, language);
+  if (tokens.length === 0) return;
+
+  const ranges = new Map<TokenType, Range[]>(
+    TOKEN_TYPES.map((type) => [type, []])
+  );
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let node = walker.nextNode();
+  let nodeStart = 0;
+
+  // Finds the text position of `offset`; tokens arrive in order, so the
+  // walk only ever moves forwards.
+  const locate = (offset: number, isEnd: boolean) => {
+    while (node) {
+      const length = node.textContent?.length ?? 0;
+      const nodeEnd = nodeStart + length;
+      if (offset < nodeEnd || (isEnd && offset === nodeEnd)) {
+        return { node, offset: offset - nodeStart };
+      }
+      nodeStart = nodeEnd;
+      node = walker.nextNode();
+    }
+    return null;
+  };
+
+  for (const token of tokens) {
+    const start = locate(token.start, false);
+    const end = start && locate(token.end, true);
+    if (!start || !end) break;
+    const range = new Range();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    ranges.get(token.type)!.push(range);
+  }
+
+  for (const [type, list] of ranges) {
+    const highlight = getHighlight(type);
+    list.forEach((range) => highlight?.add(range));
+  }
+  blockRanges.set(blockId, ranges);
+}
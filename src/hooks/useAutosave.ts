@@ -0,0 +1,59 @@
+import { useEffect, useRef } from "react";
+import type { Block, CommentThread } from "../types";
+import { saveDocument } from "../storage";
+
+const AUTOSAVE_DELAY = 800;
+
+interface Note {
+  blocks: Block[];
+  threads: CommentThread[];
+}
+
+function persist({ blocks, threads }: Note) {
+  saveDocument(blocks, threads).catch((err) =>
+    console.error("Failed to save document", err)
+  );
+}
+
+// Debounced persistence of the document. Nothing is written until `enabled`
+// is true so that the blank initial state never overwrites a saved note
+// before it has been restored.
+export function useAutosave(
+  blocks: Block[],
+  threads: CommentThread[],
+  enabled: boolean,
+  delay: number = AUTOSAVE_DELAY
+) {
+  const pendingRef = useRef<Note | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    pendingRef.current = { blocks, threads };
+
+    const timer = setTimeout(() => {
+      pendingRef.current = null;
+      persist({ blocks, threads });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [blocks, threads, enabled, delay]);
+
+  // Flush a pending save when the tab is hidden or closed.
+  useEffect(() => {
+    function flush() {
+      if (pendingRef.current) {
+        persist(pendingRef.current);
+        pendingRef.current = null;
+      }
+    }
+    function onVisibilityChange() {
+      if (document.visibilityState === "hidden") flush();
+    }
+
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, []);
+}
@@ -1,97 +1,220 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
+import type { Block, EditorSelection } from "../types";
+import {
+  appendOperation,
+  applyTransaction,
+  diffBlocks,
+  invertTransaction,
+  type Operation,
+  type Transaction,
+} from "../transactions";
 
-interface HistoryState<T> {
-  past: T[];
-  present: T;
-  future: T[];
+interface HistoryEntry {
+  transaction: Transaction;
+  // Where the selection was when the entry started and when it ended, so
+  // undo and redo can put the caret back.
+  selectionBefore: EditorSelection | null;
+  selectionAfter: EditorSelection | null;
 }
 
-export function useHistory<T>(initialPresent: T) {
-  const [state, setState] = useState<HistoryState<T>>({
+interface HistoryState {
+  past: HistoryEntry[];
+  present: Block[];
+  future: HistoryEntry[];
+  // While open, edits made without a new snapshot (typing) join the last
+  // entry, so undoing it also reverts them.
+  isOpen: boolean;
+}
+
+// Adds operations to the open entry; without one they are not undoable.
+function record(state: HistoryState, ops: Operation[]): HistoryEntry[] {
+  if (!state.isOpen || ops.length === 0) return state.past;
+  const last = state.past[state.past.length - 1];
+  return [
+    ...state.past.slice(0, -1),
+    { ...last, transaction: ops.reduce(appendOperation, last.transaction) },
+  ];
+}
+
+// Starts a new entry. The selection it starts from is also where the
+// previous entry ended; an entry that is still empty is reused.
+function startEntry(
+  past: HistoryEntry[],
+  selection: EditorSelection | null
+): HistoryEntry[] {
+  const last = past[past.length - 1];
+  const entry = {
+    transaction: [],
+    selectionBefore: selection,
+    selectionAfter: null,
+  };
+  if (!last) return [entry];
+  if (last.transaction.length === 0) return [...past.slice(0, -1), entry];
+  return [...past.slice(0, -1), { ...last, selectionAfter: selection }, entry];
+}
+
+export function useHistory(
+  initialPresent: Block[],
+  getSelection: () => EditorSelection | null
+) {
+  const [state, setState] = useState<HistoryState>({
     past: [],
     present: initialPresent,
     future: [],
+    isOpen: false,
   });
+  // The newest state, ahead of the render that shows it. Every change goes
+  // through `update`, so changes made before React re-renders (e.g. undo
+  // right after a collaborator's edit) build on each other.
+  const stateRef = useRef(state);
 
-  const canUndo = state.past.length > 0;
-  const canRedo = state.future.length > 0;
+  const update = useCallback(
+    (change: (currentState: HistoryState) => HistoryState) => {
+      stateRef.current = change(stateRef.current);
+      setState(stateRef.current);
+    },
+    []
+  );
 
-  // Undo: Move present to future, pop past to present
-  const undo = useCallback(() => {
-    setState((currentState) => {
-      const { past, present, future } = currentState;
-      if (past.length === 0) return currentState;
+  const canUndo = state.past.some((entry) => entry.transaction.length > 0);
+  const canRedo = state.future.length > 0;
 
-      const previous = past[past.length - 1];
-      const newPast = past.slice(0, past.length - 1);
+  // Undo: replay the inverse of the last non-empty entry. Returns the
+  // selection to restore, or null when there was nothing to undo.
+  const undo = useCallback((): EditorSelection | null => {
+    let selection: EditorSelection | null = null;
+    update((currentState) => {
+      const past = [...currentState.past];
+      while (
+        past.length > 0 &&
+        past[past.length - 1].transaction.length === 0
+      ) {
+        past.pop();
+      }
+      const entry = past.pop();
+      if (!entry) return currentState;
 
+      selection = entry.selectionBefore;
       return {
-        past: newPast,
-        present: previous,
-        future: [present, ...future],
+        past,
+        present: applyTransaction(
+          currentState.present,
+          invertTransaction(entry.transaction)
+        ),
+        future: [
+          { ...entry, selectionAfter: entry.selectionAfter ?? getSelection() },
+          ...currentState.future,
+        ],
+        isOpen: false,
       };
     });
-  }, []);
+    return selection;
+  }, [update, getSelection]);
 
-  // Redo: Move present to past, pop future to present
-  const redo = useCallback(() => {
-    setState((currentState) => {
-      const { past, present, future } = currentState;
-      if (future.length === 0) return currentState;
-
-      const next = future[0];
-      const newFuture = future.slice(1);
+  // Redo: replay the next entry forwards. Returns the selection to restore,
+  // or null when there was nothing to redo.
+  const redo = useCallback((): EditorSelection | null => {
+    let selection: EditorSelection | null = null;
+    update((currentState) => {
+      const [entry, ...future] = currentState.future;
+      if (!entry) return currentState;
 
+      selection = entry.selectionAfter;
       return {
-        past: [...past, present],
-        present: next,
-        future: newFuture,
+        past: [...currentState.past, entry],
+        present: applyTransaction(currentState.present, entry.transaction),
+        future,
+        isOpen: false,
       };
     });
-  }, []);
-
-  // Set: Update present. Optionally save the *previous* present to history.
-  // We use a deep copy helper to ensure we don't store references.
-  const set = useCallback((newPresent: T, saveToHistory: boolean = false) => {
-    setState((currentState) => {
-      const { past, present } = currentState;
-
-      if (saveToHistory) {
-        // Deep copy the previous state to break references
-        const safePresent = JSON.parse(JSON.stringify(present));
-        return {
-          past: [...past, safePresent],
-          present: newPresent,
-          future: [], // New action clears the future
-        };
-      }
+    return selection;
+  }, [update]);
 
-      return {
+  // Set: Update present. The change is stored as the operations that
+  // produce it, optionally as an entry of its own starting at `selection`.
+  const set = useCallback(
+    (
+      newPresent: Block[],
+      saveToHistory = false,
+      selection: EditorSelection | null = getSelection()
+    ) => {
+      update((currentState) => {
+        const ops = diffBlocks(currentState.present, newPresent);
+        const base: HistoryState = saveToHistory
+          ? {
+              ...currentState,
+              past: startEntry(currentState.past, selection),
+              future: [],
+              isOpen: true,
+            }
+          : currentState;
+        return { ...base, past: record(base, ops), present: newPresent };
+      });
+    },
+    [update, getSelection]
+  );
+
+  // Apply: Run explicit operations against the present.
+  const apply = useCallback(
+    (ops: Operation[]) => {
+      update((currentState) => ({
         ...currentState,
-        present: newPresent,
-      };
-    });
-  }, []);
+        past: record(currentState, ops),
+        present: applyTransaction(currentState.present, ops),
+      }));
+    },
+    [update]
+  );
 
-  // Helper: Manually push the *current* state to history without changing it.
-  // Useful before performing a destructive action (like drag and drop).
+  // Helper: Start a new entry before performing an action. Everything
+  // up to the next snapshot is undone together.
   const saveSnapshot = useCallback(() => {
-    setState((currentState) => {
-      const safePresent = JSON.parse(JSON.stringify(currentState.present));
-      return {
-        ...currentState,
-        past: [...currentState.past, safePresent],
+    const selection = getSelection();
+    update((currentState) => ({
+      ...currentState,
+      past: startEntry(currentState.past, selection),
+      future: [],
+      isOpen: true,
+    }));
+  }, [update, getSelection]);
+
+  // Receive: Replace the present with changes made elsewhere (e.g. by a
+  // collaborator) or that are not edits (e.g. opening toggles to reveal a
+  // search match). They are not recorded, so local undo leaves them alone.
+  const receive = useCallback(
+    (newPresent: Block[]) => {
+      update((currentState) => ({ ...currentState, present: newPresent }));
+    },
+    [update]
+  );
+
+  // Reset: Replace the present and drop all history (e.g. after loading a document).
+  const reset = useCallback(
+    (newPresent: Block[]) => {
+      update(() => ({
+        past: [],
+        present: newPresent,
         future: [],
-      };
-    });
-  }, []);
+        isOpen: false,
+      }));
+    },
+    [update]
+  );
+
+  // Latest: The newest present, for code that resumes after an `await` and
+  // must not build on the tree it started from.
+  const getLatest = useCallback(() => stateRef.current.present, []);
 
   return {
     state: state.present,
     set,
+    apply,
     undo,
     redo,
     saveSnapshot,
+    receive,
+    reset,
+    getLatest,
     canUndo,
     canRedo,
   };
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from "react";
+import type { EditorSelection } from "../types";
+import {
+  createPeerIdentity,
+  type Peer,
+  type PresenceChannel,
+} from "../presence";
+
+const HEARTBEAT_INTERVAL = 3000;
+// Peers that stop sending heartbeats (crashed tab, lost network) disappear
+const PEER_TIMEOUT = 10000;
+
+// Broadcasts our focus and selection and collects everybody else's. The
+// channel is created on mount and closed on unmount. Also returns our own
+// identity, which other features (e.g. comments) show as the author.
+export function usePresence(
+  createChannel: () => PresenceChannel,
+  focusedId: string | null,
+  selection: EditorSelection | null
+): { peers: Peer[]; identity: Pick<Peer, "clientId" | "name" | "color"> } {
+  const [identity] = useState(createPeerIdentity);
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const channelRef = useRef<PresenceChannel | null>(null);
+  const selfRef = useRef<Peer>({ ...identity, focusedId, selection });
+  const lastSeenRef = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    const channel = createChannel();
+    channelRef.current = channel;
+    const lastSeen = lastSeenRef.current;
+
+    const unsubscribe = channel.subscribe((message) => {
+      if (message.type === "leave") {
+        lastSeen.delete(message.clientId);
+        setPeers((prev) => prev.filter((p) => p.clientId !== message.clientId));
+        return;
+      }
+      const { peer } = message;
+      // Introduce ourselves to newcomers straight away
+      if (!lastSeen.has(peer.clientId)) {
+        channel.post({ type: "update", peer: selfRef.current });
+      }
+      lastSeen.set(peer.clientId, Date.now());
+      setPeers((prev) => [
+        ...prev.filter((p) => p.clientId !== peer.clientId),
+        peer,
+      ]);
+    });
+
+    const leave = () =>
+      channel.post({ type: "leave", clientId: selfRef.current.clientId });
+
+    const heartbeat = setInterval(() => {
+      channel.post({ type: "update", peer: selfRef.current });
+      const now = Date.now();
+      for (const [clientId, time] of lastSeen) {
+        if (now - time > PEER_TIMEOUT) lastSeen.delete(clientId);
+      }
+      setPeers((prev) => prev.filter((p) => lastSeen.has(p.clientId)));
+    }, HEARTBEAT_INTERVAL);
+
+    window.addEventListener("pagehide", leave);
+    return () => {
+      leave();
+      clearInterval(heartbeat);
+      window.removeEventListener("pagehide", leave);
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [createChannel]);
+
+  useEffect(() => {
+    selfRef.current = { ...identity, focusedId, selection };
+    channelRef.current?.post({ type: "update", peer: selfRef.current });
+  }, [identity, focusedId, selection]);
+
+  return { peers, identity };
+}
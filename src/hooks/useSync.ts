@@ -0,0 +1,114 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import type { Block } from "../types";
+import {
+  applySyncOps,
+  createSyncDocument,
+  materialize,
+  recordLocalChange,
+  reuseUnchanged,
+  type SyncOp,
+} from "../sync";
+import { getRoom } from "../presence";
+
+// Set VITE_SYNC_URL (e.g. ws://localhost:1234, see `npm run relay`) to
+// collaborate; without it the editor stays local.
+const SYNC_URL: string | undefined = import.meta.env.VITE_SYNC_URL;
+const RECONNECT_DELAY = 2000;
+
+type RelayMessage =
+  | { type: "welcome"; isFirst: boolean; ops: SyncOp[] }
+  | { type: "ops"; ops: SyncOp[] };
+
+// Returns false when the socket is not open, so the caller can keep the ops.
+function sendOps(socket: WebSocket | null, ops: SyncOp[]) {
+  if (socket?.readyState !== WebSocket.OPEN) return false;
+  if (ops.length > 0) socket.send(JSON.stringify({ type: "ops", ops }));
+  return true;
+}
+
+// Keeps `blocks` in sync with everybody else in the room through the relay.
+// Local changes are picked up by diffing against the last synced tree;
+// remote ones are handed to `onRemoteChange` and never enter local history.
+export function useSync(
+  blocks: Block[],
+  onRemoteChange: (blocks: Block[]) => void,
+  enabled: boolean
+) {
+  const [doc] = useState(() => createSyncDocument());
+  const syncedRef = useRef<Block[]>(blocks);
+  const isReadyRef = useRef(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const outboxRef = useRef<SyncOp[]>([]);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+
+  useEffect(() => {
+    onRemoteChangeRef.current = onRemoteChange;
+  }, [onRemoteChange]);
+
+  useEffect(() => {
+    if (!enabled || !SYNC_URL) return;
+    let closed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const deliver = () => {
+      const next = materialize(doc);
+      // Still waiting for whoever seeds the room
+      if (next.length === 0) return;
+      isReadyRef.current = true;
+      syncedRef.current = reuseUnchanged(syncedRef.current, next);
+      onRemoteChangeRef.current(syncedRef.current);
+    };
+
+    const connect = () => {
+      const url = new URL(SYNC_URL);
+      url.searchParams.set("room", getRoom());
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data) as RelayMessage;
+        if (message.type === "welcome") {
+          if (message.isFirst && doc.log.length === 0) {
+            // First in the room: our note becomes the shared one
+            recordLocalChange(doc, [], syncedRef.current);
+            isReadyRef.current = true;
+          }
+          applySyncOps(doc, message.ops);
+          // A relay that lost its log is re-seeded with everything we know
+          sendOps(socket, message.isFirst ? doc.log : outboxRef.current);
+          outboxRef.current = [];
+          deliver();
+        } else if (message.type === "ops") {
+          applySyncOps(doc, message.ops);
+          deliver();
+        }
+      };
+
+      socket.onclose = () => {
+        socketRef.current = null;
+        if (!closed) retryTimer = setTimeout(connect, RECONNECT_DELAY);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socketRef.current?.close();
+    };
+  }, [enabled, doc]);
+
+  // A layout effect, so a local change is recorded before any message that
+  // arrives afterwards can replace the tree.
+  useLayoutEffect(() => {
+    if (blocks === syncedRef.current) return;
+    if (!isReadyRef.current) {
+      // Not in a room yet: this is the note we would seed it with
+      syncedRef.current = blocks;
+      return;
+    }
+    const ops = recordLocalChange(doc, syncedRef.current, blocks);
+    syncedRef.current = blocks;
+    if (!sendOps(socketRef.current, ops)) outboxRef.current.push(...ops);
+  }, [blocks, doc]);
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Block } from "../types";
+import { loadVersions, saveVersion, type DocumentVersion } from "../storage";
+
+const AUTO_VERSION_INTERVAL = 5 * 60 * 1000;
+
+// Persisted versions of the document: an automatic snapshot every
+// `interval` while it keeps changing, plus checkpoints named by the user.
+// Like autosave, nothing happens until `enabled` (the note is restored).
+export function useVersionHistory(
+  blocks: Block[],
+  enabled: boolean,
+  interval: number = AUTO_VERSION_INTERVAL
+) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const blocksRef = useRef(blocks);
+  // The document as of the last stored version
+  const savedRef = useRef<Block[] | null>(null);
+
+  useEffect(() => {
+    blocksRef.current = blocks;
+  }, [blocks]);
+
+  const addVersion = useCallback((snapshot: Block[], name: string | null) => {
+    savedRef.current = snapshot;
+    saveVersion(snapshot, name)
+      .then(setVersions)
+      .catch((err) => console.error("Failed to save version", err));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    savedRef.current = blocksRef.current;
+
+    loadVersions()
+      .then((list) => {
+        if (!cancelled) setVersions(list);
+      })
+      .catch((err) => console.error("Failed to load versions", err));
+
+    const timer = setInterval(() => {
+      if (blocksRef.current !== savedRef.current) {
+        addVersion(blocksRef.current, null);
+      }
+    }, interval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [enabled, interval, addVersion]);
+
+  const createCheckpoint = useCallback(
+    (name: string) => addVersion(blocks, name),
+    [blocks, addVersion]
+  );
+
+  return { versions, createCheckpoint };
+}
@@ -0,0 +1,153 @@
+import type { Block, InlineNode, MarkType } from "./types";
+import { COMMANDS } from "./commands";
+import {
+  getMarksAt,
+  isMarkActiveInRange,
+  replaceContentRange,
+  splitContentAt,
+  toggleMarkInRange,
+} from "./utils";
+
+// Input rules run on every keystroke and look at the text just before the
+// caret. They never see the DOM: the caller passes in the freshly parsed
+// content and the caret offset.
+
+const getPlainText = (content: InlineNode[]) =>
+  content.map((n) => n.text).join("");
+
+// contentEditable inserts a non-breaking space when a space ends the text.
+const isSpace = (char: string | undefined) => char === " " || char === "\u00a0";
+
+// `[]`, `[ ]` and `[x]` start a to-do, checked for `[x]`
+const TODO_SHORTCUT_RE = /^\[([ \u00a0xX]?)\]$/;
+
+// --- 1. BLOCK RULES ---
+
+// Maps a command id from `COMMANDS` onto the block it creates.
+function commandToBlock(cmdType: string): Pick<Block, "type" | "props"> | null {
+  const heading = /^h([1-3])$/.exec(cmdType);
+  if (heading) {
+    return {
+      type: "heading",
+      props: { level: Number(heading[1]) as 1 | 2 | 3 },
+    };
+  }
+  if (cmdType === "code") {
+    return { type: "code", props: { language: "TypeScript" } };
+  }
+  if (cmdType === "todo") {
+    return { type: "todo", props: { checked: false } };
+  }
+  if (
+    cmdType === "bullet-list" ||
+    cmdType === "numbered-list" ||
+    cmdType === "quote" ||
+    cmdType === "divider"
+  ) {
+    return { type: cmdType, props: {} };
+  }
+  return null;
+}
+
+/**
+ * Typing a command shortcut followed by a space at the very start of a block
+ * (`# `, `- `, `1. `, `[] `, `[x] `, `" `, ```` ``` ````, `--- `) converts
+ * the block.
+ * Returns the converted block with the shortcut removed.
+ */
+export function matchBlockInputRule(
+  block: Block,
+  content: InlineNode[],
+  offset: number
+): Block | null {
+  if (block.type === "code" || block.type === "divider") return null;
+
+  const text = getPlainText(content);
+  if (!isSpace(text[offset - 1])) return null;
+  const typed = text.slice(0, offset - 1);
+
+  const todo = TODO_SHORTCUT_RE.exec(typed);
+  const command = COMMANDS.find((cmd) => cmd.shortcut === typed);
+  const target = todo
+    ? { type: "todo" as const, props: { checked: /x/i.test(todo[1]) } }
+    : command && commandToBlock(command.type);
+  if (!target) return null;
+
+  // Already that kind of block: leave the text alone
+  if (
+    target.type === block.type &&
+    (target.type !== "heading" || target.props.level === block.props.level)
+  ) {
+    return null;
+  }
+
+  const [, rest] = splitContentAt(content, offset);
+  return {
+    ...block,
+    type: target.type,
+    props: { ...block.props, ...target.props },
+    content: rest,
+  };
+}
+
+// --- 2. INLINE RULES ---
+
+// Longer delimiters first so `**` is not read as two empty `_`-style pairs.
+const INLINE_RULES: { delimiter: string; mark: MarkType }[] = [
+  { delimiter: "**", mark: "bold" },
+  { delimiter: "~~", mark: "strike" },
+  { delimiter: "_", mark: "italic" },
+  { delimiter: "`", mark: "code" },
+];
+
+/**
+ * Typing the closing delimiter of `**bold**`, `_italic_`, `` `code` `` or
+ * `~~strike~~` removes both delimiters and marks the text between them.
+ */
+export function matchInlineInputRule(
+  content: InlineNode[],
+  offset: number
+): { content: InlineNode[]; offset: number } | null {
+  const text = getPlainText(content);
+
+  // Nothing is parsed inside inline code
+  if (getMarksAt(content, offset - 1).some((m) => m.type === "code")) {
+    return null;
+  }
+
+  for (const { delimiter, mark } of INLINE_RULES) {
+    const size = delimiter.length;
+    const closeStart = offset - size;
+    if (closeStart < 1 || text.slice(closeStart, offset) !== delimiter) {
+      continue;
+    }
+
+    const open = text.lastIndexOf(delimiter, closeStart - 1);
+    if (open === -1) continue;
+    const innerStart = open + size;
+    const inner = text.slice(innerStart, closeStart);
+
+    if (
+      inner.length === 0 ||
+      inner.trim() !== inner ||
+      inner.includes(delimiter[0]) ||
+      // snake_case and **** runs are not emphasis
+      /\w/.test(text[open - 1] || "") ||
+      text[open - 1] === delimiter[0]
+    ) {
+      continue;
+    }
+
+    let newContent = replaceContentRange(content, closeStart, offset, []);
+    newContent = replaceContentRange(newContent, open, innerStart, []);
+    const end = open + inner.length;
+    if (isMarkActiveInRange(newContent, open, end, { type: mark })) continue;
+
+    return {
+      content: toggleMarkInRange(newContent, open, end, mark),
+      offset: end,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,755 @@
+import type { Block, InlineNode, Mark, MarkType, TableAlign } from "./types";
+import {
+  createBlock,
+  createDiagramBlock,
+  createImageBlock,
+  getTextLength,
+  mergeSimilarNodes,
+  normalizeEditorState,
+  sanitizeHref,
+  uid,
+} from "./utils";
+import { DEFAULT_HIGHLIGHT, isHighlightColor } from "./colors";
+import { createTableBlock, getTable } from "./table";
+import { parseDiagram } from "./diagram";
+
+// --- 1. SHARED SYNTAX ---
+
+// Marks are nested in this order (outermost first). Code is always innermost
+// because nothing can be nested inside a code span.
+const MARK_ORDER: MarkType[] = ["bold", "italic", "strike", "underline"];
+
+const MARK_DELIMITERS: Partial<Record<MarkType, [string, string]>> = {
+  bold: ["**", "**"],
+  italic: ["_", "_"],
+  strike: ["~~", "~~"],
+  underline: ["<u>", "</u>"],
+};
+
+// Fence info strings are matched case-insensitively onto the names used by the
+// code block language picker.
+const CODE_LANGUAGES: Record<string, string> = {
+  typescript: "TypeScript",
+  ts: "TypeScript",
+  javascript: "JavaScript",
+  js: "JavaScript",
+  python: "Python",
+  py: "Python",
+  html: "HTML",
+  css: "CSS",
+  sql: "SQL",
+  rust: "Rust",
+  rs: "Rust",
+  json: "JSON",
+};
+
+export function resolveCodeLanguage(info: string): string {
+  return CODE_LANGUAGES[info.toLowerCase()] || info;
+}
+
+// An empty paragraph has no Markdown form, so we emit an explicit line break.
+const EMPTY_LINE = "<br>";
+
+const FENCE_RE = /^(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+const DIVIDER_RE = /^([-*_])(\s*\1){2,}\s*$/;
+const HEADING_RE = /^(#{1,6})(?:\s+|$)(.*)$/;
+const BULLET_RE = /^([-*+])(?:\s+|$)(.*)$/;
+const NUMBERED_RE = /^(\d{1,9})[.)](?:\s+|$)(.*)$/;
+// The checkbox opening a task list item's text: `- [ ] ` or `- [x] `
+const TASK_RE = /^\[([ xX])\](?:\s+|$)(.*)$/;
+const QUOTE_RE = /^>/;
+const EMPTY_LINE_RE = /^<br\s*\/?>$/i;
+const TABLE_DELIMITER_RE = /^\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+// A line holding just an image: ![alt](src "caption")
+const IMAGE_RE =
+  /^!\[((?:\\.|[^\]\\])*)\]\(\s*(\S*?)(?:\s+"((?:\\.|[^"\\])*)")?\s*\)\s*$/;
+
+// Cells of a pipe table row; `\|` is a literal pipe inside a cell.
+function splitTableRow(line: string): string[] {
+  const cells = line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/);
+  return cells.map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function isBlockStart(text: string) {
+  return (
+    FENCE_RE.test(text) ||
+    DIVIDER_RE.test(text) ||
+    HEADING_RE.test(text) ||
+    BULLET_RE.test(text) ||
+    NUMBERED_RE.test(text) ||
+    QUOTE_RE.test(text) ||
+    IMAGE_RE.test(text)
+  );
+}
+
+const isListType = (block: Block) =>
+  block.type === "bullet-list" ||
+  block.type === "numbered-list" ||
+  block.type === "todo";
+
+// --- 2. SERIALIZATION (Block[] -> Markdown) ---
+
+function escapeInline(text: string) {
+  return text
+    .replace(/[\\`*_~<[\]]/g, "\\$&")
+    .replace(/={2,}/g, (run) => run.replace(/=/g, "\\="));
+}
+
+// Text that would otherwise be read back as block syntax (headings, quotes,
+// list markers, dividers) gets its first character escaped.
+function escapeLineStart(line: string) {
+  const ordered = line.match(/^(\d+)([.)])/);
+  if (ordered) return ordered[1] + "\\" + line.slice(ordered[1].length);
+  return /^[#>+-]/.test(line) ? "\\" + line : line;
+}
+
+function serializeCodeSpan(text: string) {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) || []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const pad = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+function serializeNode(node: InlineNode): string {
+  const isCode = node.marks.some((m) => m.type === "code");
+
+  // Delimiters must hug non-whitespace, so surrounding spaces are moved
+  // outside of the marks.
+  const [, leading, core, trailing] = node.text.match(
+    /^(\s*)([\s\S]*?)(\s*)$/
+  )!;
+  if (!core) return node.text;
+
+  let body = isCode ? serializeCodeSpan(core) : escapeInline(core);
+  for (const type of [...MARK_ORDER].reverse()) {
+    const delimiters = MARK_DELIMITERS[type];
+    if (delimiters && node.marks.some((m) => m.type === type)) {
+      body = delimiters[0] + body + delimiters[1];
+    }
+  }
+
+  // Yellow uses the common ==mark== extension; other colours need HTML.
+  const highlight = node.marks.find((m) => m.type === "highlight");
+  if (highlight) {
+    const color = highlight.attrs?.color || DEFAULT_HIGHLIGHT;
+    body =
+      color === DEFAULT_HIGHLIGHT
+        ? `==${body}==`
+        : `<mark data-color="${color}">${body}</mark>`;
+  }
+  return leading + body + trailing;
+}
+
+const linkOf = (node: InlineNode): string | undefined =>
+  node.marks.find((m) => m.type === "link")?.attrs?.href;
+
+function serializeHref(href: string) {
+  return href.replace(
+    /[()\s]/g,
+    (ch) => "%" + ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")
+  );
+}
+
+export function serializeInline(content: InlineNode[]): string {
+  let out = "";
+  let i = 0;
+  while (i < content.length) {
+    const href = linkOf(content[i]);
+    if (!href) {
+      out += serializeNode(content[i]);
+      i++;
+      continue;
+    }
+
+    // Consecutive nodes sharing a link are wrapped in a single [text](href).
+    let inner = "";
+    while (i < content.length && linkOf(content[i]) === href) {
+      const node = content[i];
+      inner += serializeNode({
+        ...node,
+        marks: node.marks.filter((m) => m.type !== "link"),
+      });
+      i++;
+    }
+    out += `[${inner}](${serializeHref(href)})`;
+  }
+  return out;
+}
+
+function serializeText(block: Block): string[] {
+  if (getTextLength(block.content) === 0) return [EMPTY_LINE];
+  return serializeInline(block.content).split("\n").map(escapeLineStart);
+}
+
+function indentLines(lines: string[], pad: string) {
+  return lines.map((line) => (line ? pad + line : line));
+}
+
+function serializeChildren(block: Block, pad: string): string[] {
+  if (block.children.length === 0) return [];
+  const lines = serializeBlocks(block.children);
+  // A paragraph directly under its parent would be read as a continuation
+  // line, so anything but a nested list item is separated by a blank line.
+  const separator = isListType(block.children[0]) ? [] : [""];
+  return [...separator, ...indentLines(lines, pad)];
+}
+
+// A fence longer than any backtick run at the start of a line in `text`
+function serializeFence(text: string, info: string): string[] {
+  const longestFence = Math.max(
+    2,
+    ...(text.match(/^`{3,}/gm) || []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestFence + 1);
+  return [fence + info, ...text.split("\n"), fence];
+}
+
+function serializeBlock(block: Block, listNumber: number): string[] {
+  switch (block.type) {
+    case "divider":
+      return ["---", ...serializeChildren(block, "  ")];
+
+    case "code":
+      return [
+        ...serializeFence(
+          block.content.map((n) => n.text).join(""),
+          block.props.language || ""
+        ),
+        ...serializeChildren(block, "  "),
+      ];
+
+    case "diagram":
+      // The draw.io XML is kept verbatim in a fence tagged `drawio`
+      return [
+        ...serializeFence(block.props.xml ?? "", "drawio"),
+        ...serializeChildren(block, "  "),
+      ];
+
+    case "table": {
+      // Markdown tables always have a header, so the first row is used
+      const { rows, columnAlign } = getTable(block);
+      const row = (cells: InlineNode[][]) =>
+        `| ${cells
+          .map((cell) =>
+            serializeInline(cell).replace(/\|/g, "\\|").replace(/\n/g, "<br>")
+          )
+          .join(" | ")} |`;
+      const delimiter = columnAlign.map((align) =>
+        align === "center" ? ":---:" : align === "right" ? "---:" : "---"
+      );
+      return [
+        row(rows[0]),
+        `| ${delimiter.join(" | ")} |`,
+        ...rows.slice(1).map(row),
+        ...serializeChildren(block, "  "),
+      ];
+    }
+
+    case "image": {
+      // Width and alignment have no Markdown syntax; locally stored images
+      // have no URL and come back as an empty image block.
+      const { src, alt, caption } = block.props;
+      const escape = (text: string, chars: RegExp) =>
+        text.replace(chars, "\\$&");
+      const title = caption ? ` "${escape(caption, /["\\]/g)}"` : "";
+      return [
+        `![${escape(alt ?? "", /[[\]\\]/g)}](${serializeHref(
+          src ?? ""
+        )}${title})`,
+        ...serializeChildren(block, "  "),
+      ];
+    }
+
+    case "quote": {
+      const inner = [...serializeText(block)];
+      if (block.children.length > 0) {
+        inner.push("", ...serializeBlocks(block.children));
+      }
+      return inner.map((line) => (line ? `> ${line}` : ">"));
+    }
+
+    default: {
+      let marker = "";
+      if (block.type === "heading") {
+        marker = "#".repeat(block.props.level || 1) + " ";
+      } else if (block.type === "bullet-list" || block.type === "toggle") {
+        // Markdown has no collapsible blocks; toggles degrade to bullets.
+        marker = "- ";
+      } else if (block.type === "numbered-list") {
+        marker = `${listNumber}. `;
+      } else if (block.type === "todo") {
+        marker = block.props.checked ? "- [x] " : "- [ ] ";
+      }
+
+      const textLines =
+        marker && getTextLength(block.content) === 0
+          ? [""]
+          : serializeText(block);
+      // Sub-tasks line up with the checkbox, as in GitHub's task lists
+      const pad = " ".repeat(block.type === "todo" ? 2 : marker.length || 2);
+
+      return [
+        (marker + textLines[0]).trimEnd(),
+        ...indentLines(textLines.slice(1), pad),
+        ...serializeChildren(block, pad),
+      ];
+    }
+  }
+}
+
+function serializeBlocks(blocks: Block[]): string[] {
+  const lines: string[] = [];
+  let listNumber = 0;
+
+  blocks.forEach((block, i) => {
+    const prev = blocks[i - 1];
+    const continuesList = prev && isListType(prev) && prev.type === block.type;
+
+    listNumber =
+      block.type === "numbered-list" ? (continuesList ? listNumber + 1 : 1) : 0;
+
+    if (prev && !continuesList) lines.push("");
+    lines.push(...serializeBlock(block, listNumber));
+  });
+
+  return lines;
+}
+
+/**
+ * Serializes a block tree to Markdown. Nested `children` are written as
+ * indented blocks under their parent (inside the `>` prefix for quotes).
+ */
+export function blocksToMarkdown(blocks: Block[]): string {
+  return serializeBlocks(blocks).join("\n") + "\n";
+}
+
+// --- 3. INLINE PARSING (Markdown -> InlineNode[]) ---
+
+const ESCAPABLE_RE = /[!-/:-@[-`{-~]/;
+
+interface Delimiter {
+  mark: MarkType;
+  attrs?: Record<string, string>;
+  open: string;
+  close: string;
+}
+
+function matchDelimiter(src: string, i: number): Delimiter | null {
+  if (src.startsWith("==", i)) {
+    return {
+      mark: "highlight",
+      attrs: { color: DEFAULT_HIGHLIGHT },
+      open: "==",
+      close: "==",
+    };
+  }
+  const mark = src.slice(i).match(/^<mark(?:\s+data-color="(\w+)")?>/);
+  if (mark) {
+    return {
+      mark: "highlight",
+      attrs: {
+        color: isHighlightColor(mark[1]) ? mark[1] : DEFAULT_HIGHLIGHT,
+      },
+      open: mark[0],
+      close: "</mark>",
+    };
+  }
+  if (src.startsWith("<u>", i))
+    return { mark: "underline", open: "<u>", close: "</u>" };
+  if (src.startsWith("~~", i))
+    return { mark: "strike", open: "~~", close: "~~" };
+  if (src.startsWith("**", i)) return { mark: "bold", open: "**", close: "**" };
+  if (src.startsWith("__", i)) return { mark: "bold", open: "__", close: "__" };
+  if (src[i] === "*") return { mark: "italic", open: "*", close: "*" };
+  if (src[i] === "_") {
+    // Intraword underscores (snake_case) never open emphasis.
+    if (i > 0 && /[A-Za-z0-9]/.test(src[i - 1])) return null;
+    return { mark: "italic", open: "_", close: "_" };
+  }
+  return null;
+}
+
+function findCodeSpanEnd(src: string, from: number, fence: string) {
+  let i = src.indexOf(fence, from);
+  while (i !== -1) {
+    const before = src[i - 1];
+    const after = src[i + fence.length];
+    if (before !== "`" && after !== "`") return i;
+    i = src.indexOf(fence, i + 1);
+  }
+  return -1;
+}
+
+function findClosingDelimiter(src: string, from: number, delimiter: Delimiter) {
+  let i = from;
+  while (i < src.length) {
+    if (src[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (src[i] === "`") {
+      const fence = src.slice(i).match(/^`+/)![0];
+      const end = findCodeSpanEnd(src, i + fence.length, fence);
+      i = end === -1 ? i + fence.length : end + fence.length;
+      continue;
+    }
+    if (src.startsWith(delimiter.close, i) && !/\s/.test(src[i - 1])) {
+      // A single '*' must not close on half of a '**' pair.
+      const isDoubled =
+        delimiter.close === "*" && (src[i + 1] === "*" || src[i - 1] === "*");
+      if (!isDoubled) return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+// Matches `[text](href)` starting at `i`, honouring nested brackets and
+// escapes inside the link text.
+function matchLink(
+  src: string,
+  i: number
+): { text: string; href: string; end: number } | null {
+  let depth = 0;
+  let j = i;
+  for (; j < src.length; j++) {
+    if (src[j] === "\\") {
+      j++;
+    } else if (src[j] === "[") {
+      depth++;
+    } else if (src[j] === "]" && --depth === 0) {
+      break;
+    }
+  }
+  if (j >= src.length || src[j + 1] !== "(") return null;
+
+  // Balanced parentheses are allowed inside the destination.
+  let close = j + 2;
+  for (let parens = 0; close < src.length; close++) {
+    if (src[close] === "(") parens++;
+    else if (src[close] === ")" && parens-- === 0) break;
+  }
+  if (close >= src.length) return null;
+
+  const href = src
+    .slice(j + 2, close)
+    .trim()
+    .replace(/^<(.*)>$/, "$1");
+  try {
+    return { text: src.slice(i + 1, j), href: decodeURI(href), end: close + 1 };
+  } catch {
+    return { text: src.slice(i + 1, j), href, end: close + 1 };
+  }
+}
+
+/**
+ * Parses Markdown inline syntax (emphasis, strong, strike, code spans, links,
+ * `==highlight==`, `<u>`, `<mark>`) into merged inline nodes.
+ */
+export function parseInline(src: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+
+  const push = (text: string, marks: Mark[]) => {
+    if (text) nodes.push({ id: uid(), text, marks });
+  };
+
+  function walk(text: string, marks: Mark[]) {
+    let buffer = "";
+    const flush = () => {
+      push(buffer, marks);
+      buffer = "";
+    };
+
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i];
+
+      if (ch === "\\" && ESCAPABLE_RE.test(text[i + 1] || "")) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+
+      if (ch === "`") {
+        const fence = text.slice(i).match(/^`+/)![0];
+        const end = findCodeSpanEnd(text, i + fence.length, fence);
+        if (end !== -1) {
+          flush();
+          let code = text.slice(i + fence.length, end);
+          if (/^ [\s\S]* $/.test(code) && code.trim()) code = code.slice(1, -1);
+          push(code, [...marks, { type: "code" }]);
+          i = end + fence.length;
+          continue;
+        }
+        buffer += fence;
+        i += fence.length;
+        continue;
+      }
+
+      if (ch === "[") {
+        const link = matchLink(text, i);
+        if (link) {
+          flush();
+          const href = sanitizeHref(link.href);
+          walk(
+            link.text,
+            href
+              ? [
+                  ...marks.filter((m) => m.type !== "link"),
+                  { type: "link", attrs: { href } },
+                ]
+              : marks
+          );
+          i = link.end;
+          continue;
+        }
+      }
+
+      const delimiter = matchDelimiter(text, i);
+      if (delimiter) {
+        const start = i + delimiter.open.length;
+        const end = /\s/.test(text[start] || " ")
+          ? -1
+          : findClosingDelimiter(text, start, delimiter);
+        if (end > start) {
+          flush();
+          walk(text.slice(start, end), [
+            ...marks.filter((m) => m.type !== delimiter.mark),
+            {
+              type: delimiter.mark,
+              ...(delimiter.attrs && { attrs: delimiter.attrs }),
+            },
+          ]);
+          i = end + delimiter.close.length;
+          continue;
+        }
+        buffer += delimiter.open;
+        i += delimiter.open.length;
+        continue;
+      }
+
+      buffer += ch;
+      i++;
+    }
+    flush();
+  }
+
+  walk(src, []);
+  return mergeSimilarNodes(nodes);
+}
+
+// --- 4. BLOCK PARSING (Markdown -> Block[]) ---
+
+function indentOf(line: string) {
+  return line.match(/^ */)![0].length;
+}
+
+function textBlock(type: Block["type"], text: string): Block {
+  const block = createBlock(type);
+  return {
+    ...block,
+    content: EMPTY_LINE_RE.test(text.trim()) ? [] : parseInline(text),
+  };
+}
+
+function parseLines(lines: string[]): Block[] {
+  const roots: Block[] = [];
+  const stack: { block: Block; childIndent: number }[] = [];
+
+  const attach = (block: Block, indent: number, childIndent: number) => {
+    while (stack.length > 0 && indent < stack[stack.length - 1].childIndent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    (parent ? parent.block.children : roots).push(block);
+    stack.push({ block, childIndent });
+  };
+
+  // Collects lazy continuation lines of a paragraph-like block.
+  const collectParagraph = (first: string, from: number) => {
+    const collected = [first];
+    let i = from;
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !isBlockStart(lines[i].trimStart())
+    ) {
+      collected.push(lines[i].trimStart());
+      i++;
+    }
+    return { text: collected.join("\n"), next: i };
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const raw = lines[i].replace(/\t/g, "    ");
+    if (!raw.trim()) {
+      i++;
+      continue;
+    }
+
+    const indent = indentOf(raw);
+    const text = raw.slice(indent);
+
+    const fence = text.match(FENCE_RE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const line = lines[i];
+        const trimmed = line.trimStart();
+        if (
+          trimmed.startsWith(marker[0].repeat(marker.length)) &&
+          !trimmed.replace(/^[`~]+/, "").trim()
+        ) {
+          i++;
+          break;
+        }
+        body.push(line.slice(Math.min(indent, indentOf(line))));
+        i++;
+      }
+
+      const info = fence[2];
+      const text = body.join("\n");
+      if (info?.toLowerCase() === "drawio" && parseDiagram(text)) {
+        attach(createDiagramBlock(text), indent, indent + 2);
+        continue;
+      }
+
+      const block = createBlock("code", text);
+      if (info) {
+        block.props = {
+          language: resolveCodeLanguage(info),
+        };
+      }
+      attach(block, indent, indent + 2);
+      continue;
+    }
+
+    if (DIVIDER_RE.test(text)) {
+      attach(createBlock("divider"), indent, indent + 2);
+      i++;
+      continue;
+    }
+
+    const image = text.match(IMAGE_RE);
+    if (image) {
+      const unescape = (text: string) => text.replace(/\\(.)/g, "$1");
+      const [, alt, src, caption] = image;
+      attach(
+        createImageBlock({
+          src: /^https?:\/\//i.test(src) ? src : undefined,
+          alt: unescape(alt) || undefined,
+          caption: caption ? unescape(caption) : undefined,
+        }),
+        indent,
+        indent + 2
+      );
+      i++;
+      continue;
+    }
+
+    // A pipe table is a header row followed by a delimiter row
+    const delimiter = lines[i + 1]?.trim() ?? "";
+    if (
+      text.includes("|") &&
+      TABLE_DELIMITER_RE.test(delimiter) &&
+      splitTableRow(delimiter).length === splitTableRow(text).length
+    ) {
+      const columnAlign = splitTableRow(delimiter).map(
+        (cell): TableAlign =>
+          cell.endsWith(":")
+            ? cell.startsWith(":")
+              ? "center"
+              : "right"
+            : "left"
+      );
+      const rows = [splitTableRow(text)];
+      i += 2;
+      // Cells past the header's width are dropped, as in GFM
+      while (i < lines.length && lines[i].includes("|")) {
+        rows.push(splitTableRow(lines[i]).slice(0, columnAlign.length));
+        i++;
+      }
+      const block = createTableBlock({
+        rows: rows.map((cells) =>
+          cells.map((cell) => parseInline(cell.replace(/<br\s*\/?>/gi, "\n")))
+        ),
+        headerRow: true,
+        columnAlign,
+      });
+      attach(block, indent, indent + 2);
+      continue;
+    }
+
+    const heading = text.match(HEADING_RE);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      const block = textBlock("heading", heading[2].replace(/\s+#+\s*$/, ""));
+      block.props = { level };
+      attach(block, indent, indent + 2);
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(text)) {
+      const inner: string[] = [];
+      while (i < lines.length && QUOTE_RE.test(lines[i].trimStart())) {
+        inner.push(lines[i].trimStart().replace(/^> ?/, ""));
+        i++;
+      }
+
+      // The first paragraph is the quote's own text, the rest is nested.
+      const parsed = parseLines(inner);
+      const block = createBlock("quote");
+      if (parsed[0]?.type === "paragraph") {
+        const [first, ...rest] = parsed;
+        block.content = first.content;
+        block.children = [...first.children, ...rest];
+      } else {
+        block.children = parsed;
+      }
+      attach(block, indent, indent + 2);
+      continue;
+    }
+
+    const list = text.match(BULLET_RE) || text.match(NUMBERED_RE);
+    if (list) {
+      const type = BULLET_RE.test(text) ? "bullet-list" : "numbered-list";
+      const contentIndent = indent + text.length - list[2].length;
+      const task = type === "bullet-list" && list[2].match(TASK_RE);
+      const { text: itemText, next } = collectParagraph(
+        task ? task[2] : list[2],
+        i + 1
+      );
+      const block = textBlock(task ? "todo" : type, itemText);
+      if (task) block.props = { checked: task[1] !== " " };
+      attach(block, indent, contentIndent);
+      i = next;
+      continue;
+    }
+
+    const { text: paragraphText, next } = collectParagraph(text, i + 1);
+    attach(textBlock("paragraph", paragraphText), indent, indent + 2);
+    i = next;
+  }
+
+  return roots;
+}
+
+/**
+ * Parses Markdown into a normalized block tree. Indented blocks become the
+ * `children` of the block above them.
+ */
+export function markdownToBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  return normalizeEditorState(parseLines(lines));
+}
@@ -0,0 +1,113 @@
+import type { Block, EditorSelection } from "./types";
+import { PRESENCE_COLORS } from "./colors";
+import { flattenBlocks, getTextLength } from "./utils";
+
+// Where collaborators are: each client broadcasts its selection and focused
+// block over a `PresenceChannel`. Presence is never stored with the note.
+
+// --- 1. PEERS & CHANNELS ---
+
+export interface Peer {
+  clientId: string;
+  name: string;
+  color: string;
+  focusedId: string | null;
+  selection: EditorSelection | null;
+}
+
+export type PresenceMessage =
+  | { type: "update"; peer: Peer }
+  | { type: "leave"; clientId: string };
+
+// Any transport that reaches the other clients of the same note.
+export interface PresenceChannel {
+  post(message: PresenceMessage): void;
+  subscribe(listener: (message: PresenceMessage) => void): () => void;
+  close(): void;
+}
+
+// Everyone opening the same `?room=` edits the same note.
+export const getRoom = () =>
+  new URLSearchParams(window.location.search).get("room") ?? "default";
+
+/** Presence between tabs of the same browser. */
+export function createBroadcastChannelPresence(room: string): PresenceChannel {
+  const channel = new BroadcastChannel(`notes-it-presence:${room}`);
+  const listeners = new Set<(message: PresenceMessage) => void>();
+  channel.onmessage = (event: MessageEvent<PresenceMessage>) =>
+    listeners.forEach((listener) => listener(event.data));
+
+  return {
+    post: (message) => channel.postMessage(message),
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => channel.close(),
+  };
+}
+
+export function createPeerIdentity(): Pick<
+  Peer,
+  "clientId" | "name" | "color"
+> {
+  return {
+    clientId: crypto.randomUUID(),
+    name: `Guest ${Math.floor(100 + Math.random() * 900)}`,
+    color: PRESENCE_COLORS[Math.floor(Math.random() * PRESENCE_COLORS.length)],
+  };
+}
+
+// --- 2. DECORATIONS ---
+
+// The part of one block covered by a peer's selection.
+export interface PeerDecoration {
+  peer: Peer;
+  start: number;
+  end: number;
+  // The caret sits at `end` of the block holding the selection's end
+  hasCaret: boolean;
+}
+
+/**
+ * Splits every peer's selection into per-block ranges, keyed by block id.
+ * Blocks hidden inside collapsed toggles get nothing.
+ */
+export function getPeerDecorations(
+  blocks: Block[],
+  peers: Peer[]
+): Map<string, PeerDecoration[]> {
+  const flat = flattenBlocks(blocks);
+  const indexOf = new Map(flat.map((block, i) => [block.id, i]));
+  const decorations = new Map<string, PeerDecoration[]>();
+  const add = (blockId: string, decoration: PeerDecoration) =>
+    decorations.set(blockId, [...(decorations.get(blockId) ?? []), decoration]);
+
+  for (const peer of peers) {
+    const selection: EditorSelection | null =
+      peer.selection ??
+      (peer.focusedId
+        ? {
+            start: { blockId: peer.focusedId, offset: 0 },
+            end: { blockId: peer.focusedId, offset: 0 },
+            isCollapsed: true,
+          }
+        : null);
+    if (!selection) continue;
+
+    const first = indexOf.get(selection.start.blockId);
+    const last = indexOf.get(selection.end.blockId);
+    if (first === undefined || last === undefined || first > last) continue;
+
+    for (let i = first; i <= last; i++) {
+      const block = flat[i];
+      add(block.id, {
+        peer,
+        start: i === first ? selection.start.offset : 0,
+        end: i === last ? selection.end.offset : getTextLength(block.content),
+        hasCaret: i === last,
+      });
+    }
+  }
+  return decorations;
+}
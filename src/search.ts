@@ -0,0 +1,270 @@
+import type { Block, InlineNode } from "./types";
+import { getTable, setCell, tableProps } from "./table";
+import { setBlockOperation, type Operation } from "./transactions";
+import { getBlockSuggestion, suggestTextChange } from "./suggestions";
+import {
+  findDOMPosition,
+  flattenBlocks,
+  getMarksAt,
+  replaceContentRange,
+  uid,
+} from "./utils";
+
+// Find and replace over the plain text of every block and table cell.
+// Matches are drawn with the CSS Custom Highlight API, like code
+// highlighting, so the rendered blocks are never touched.
+
+// --- 1. MATCHING ---
+
+export interface SearchOptions {
+  query: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface SearchMatch {
+  blockId: string;
+  // Set inside a table, where the offsets count within this cell
+  cell?: { row: number; column: number };
+  start: number;
+  end: number;
+}
+
+const getText = (content: InlineNode[]) => content.map((n) => n.text).join("");
+
+// The searchable texts of a block: a table's cells, or its own content
+function getTexts(
+  block: Block
+): { content: InlineNode[]; cell?: SearchMatch["cell"] }[] {
+  if (block.type !== "table") return [{ content: block.content }];
+  return getTable(block).rows.flatMap((cells, row) =>
+    cells.map((content, column) => ({ content, cell: { row, column } }))
+  );
+}
+
+const sameCell = (a: SearchMatch["cell"], b: SearchMatch["cell"]) =>
+  a?.row === b?.row && a?.column === b?.column;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Compiles the query into a global regex. Returns null for an empty query
+ * or an invalid regular expression.
+ */
+export function buildSearchPattern(options: SearchOptions): RegExp | null {
+  if (!options.query) return null;
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  try {
+    return new RegExp(source, options.caseSensitive ? "gu" : "giu");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every match in document order, including blocks inside collapsed toggles,
+ * code blocks and table cells. Empty matches (e.g. `^` or `a*`) are skipped.
+ */
+export function findMatches(blocks: Block[], pattern: RegExp): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  for (const block of flattenBlocks(blocks, true)) {
+    for (const { content, cell } of getTexts(block)) {
+      for (const match of getText(content).matchAll(pattern)) {
+        if (match[0].length === 0) continue;
+        matches.push({
+          blockId: block.id,
+          cell,
+          start: match.index,
+          end: match.index + match[0].length,
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+// --- 2. REPLACING ---
+
+// Expands `$1`, `$&` etc. by re-running the pattern at the match itself, so
+// lookarounds see the same surrounding text they matched against.
+function expandReplacement(
+  text: string,
+  match: SearchMatch,
+  pattern: RegExp,
+  replacement: string
+): string {
+  const sticky = new RegExp(pattern.source, pattern.flags.replace("g", "y"));
+  sticky.lastIndex = match.start;
+  const replaced = text.replace(sticky, replacement);
+  const length = match.end - match.start + replaced.length - text.length;
+  return replaced.slice(match.start, match.start + length);
+}
+
+// Replaces the matches of one text, last first so earlier offsets stay valid
+function replaceInContent(
+  content: InlineNode[],
+  matches: SearchMatch[],
+  pattern: RegExp,
+  options: SearchOptions,
+  replacement: string,
+  suggestion?: { author: string; insertionId?: string }
+): InlineNode[] {
+  const text = getText(content);
+  let result = content;
+  // Last match first, so the earlier offsets still hold (deleted text that
+  // stays visible only shifts what comes after it)
+  for (const match of [...matches].reverse()) {
+    const inserted = options.regex
+      ? expandReplacement(text, match, pattern, replacement)
+      : replacement;
+    const marks = getMarksAt(result, match.start);
+    const replaced = replaceContentRange(
+      result,
+      match.start,
+      match.end,
+      inserted ? [{ id: uid(), text: inserted, marks }] : []
+    );
+    result = suggestion
+      ? suggestTextChange(
+          result,
+          replaced,
+          match.start + inserted.length,
+          suggestion.author,
+          { insertionId: suggestion.insertionId }
+        ).content
+      : replaced;
+  }
+  return result;
+}
+
+// Text typed into a block the author proposed joins that proposal
+function ownInsertionId(block: Block, author: string): string | undefined {
+  const suggestion = getBlockSuggestion(block);
+  return suggestion?.kind === "insert" && suggestion.author === author
+    ? suggestion.id
+    : undefined;
+}
+
+/**
+ * Replaces `matches` with `replacement` (which may use `$1`-style groups in
+ * regex mode). The new text takes the marks of the first replaced character,
+ * and text around each match keeps its own. Returns one update per block
+ * (a table's cells change together), to be committed as a single history
+ * entry. With an `author` (suggesting mode) the replacements are proposed
+ * instead, except in code blocks and table cells, where typing is not
+ * tracked either.
+ */
+export function replaceMatchesOperations(
+  blocks: Block[],
+  matches: SearchMatch[],
+  options: SearchOptions,
+  replacement: string,
+  author?: string
+): Operation[] {
+  const pattern = buildSearchPattern(options);
+  if (!pattern) return [];
+  const byBlock = new Map<string, SearchMatch[]>();
+  for (const match of matches) {
+    byBlock.set(match.blockId, [...(byBlock.get(match.blockId) ?? []), match]);
+  }
+
+  const ops: Operation[] = [];
+  for (const block of flattenBlocks(blocks, true)) {
+    const blockMatches = byBlock.get(block.id);
+    if (!blockMatches) continue;
+    if (block.type === "table") {
+      let table = getTable(block);
+      table.rows.forEach((cells, row) =>
+        cells.forEach((content, column) => {
+          const cell = { row, column };
+          const cellMatches = blockMatches.filter((m) =>
+            sameCell(m.cell, cell)
+          );
+          if (cellMatches.length === 0) return;
+          table = setCell(
+            table,
+            row,
+            column,
+            replaceInContent(
+              content,
+              cellMatches,
+              pattern,
+              options,
+              replacement
+            )
+          );
+        })
+      );
+      ops.push(
+        setBlockOperation(block, {
+          props: { ...block.props, ...tableProps(table) },
+        })
+      );
+      continue;
+    }
+    ops.push({
+      type: "update_content",
+      blockId: block.id,
+      before: block.content,
+      after: replaceInContent(
+        block.content,
+        blockMatches,
+        pattern,
+        options,
+        replacement,
+        author !== undefined && block.type !== "code"
+          ? { author, insertionId: ownInsertionId(block, author) }
+          : undefined
+      ),
+    });
+  }
+  return ops;
+}
+
+// --- 3. HIGHLIGHTING ---
+
+const MATCH_HIGHLIGHT = "search-match";
+const CURRENT_HIGHLIGHT = "search-current";
+
+const supportsHighlights = () =>
+  typeof CSS !== "undefined" && "highlights" in CSS;
+
+export function clearSearchHighlights() {
+  if (!supportsHighlights()) return;
+  CSS.highlights.delete(MATCH_HIGHLIGHT);
+  CSS.highlights.delete(CURRENT_HIGHLIGHT);
+}
+
+/**
+ * Highlights every rendered match, and `current` on top. Matches inside
+ * collapsed toggles have no DOM and are skipped.
+ */
+export function highlightMatches(
+  matches: SearchMatch[],
+  current: SearchMatch | null
+) {
+  clearSearchHighlights();
+  if (!supportsHighlights()) return;
+  const all = new Highlight();
+  const active = new Highlight();
+
+  for (const match of matches) {
+    const selector = match.cell
+      ? `[data-block-id="${match.blockId}"] [data-cell="${match.cell.row}:${match.cell.column}"]`
+      : `[data-block-id="${match.blockId}"]`;
+    const root = document.querySelector<HTMLElement>(selector);
+    if (!root) continue;
+    const start = findDOMPosition(root, match.start);
+    const end = findDOMPosition(root, match.end);
+    const range = new Range();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    (match === current ? active : all).add(range);
+  }
+
+  CSS.highlights.set(MATCH_HIGHLIGHT, all);
+  CSS.highlights.set(CURRENT_HIGHLIGHT, active);
+}
@@ -0,0 +1,408 @@
+import type { Block, BlockType, CommentThread, Mark } from "./types";
+import {
+  normalizeEditorState,
+  sanitizeBlock,
+  sanitizeHref,
+  uid,
+} from "./utils";
+
+// --- 1. PAYLOAD & VERSIONING ---
+
+/**
+ * Bump this whenever the shape of `Block` changes and register a migration
+ * from the previous version in `MIGRATIONS`.
+ *
+ * v1: headings stored as separate `h1` / `h2` / `h3` block types.
+ * v2: a single `heading` type with `props.level`.
+ */
+export const SCHEMA_VERSION = 2;
+
+export interface StoredDocument {
+  version: number;
+  savedAt: number;
+  blocks: Block[];
+  // Comment threads, anchored by marks in `blocks`
+  threads?: CommentThread[];
+}
+
+// Saved data is untrusted: it may come from any older build of the editor,
+// so every step checks the fields it reads.
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+type Migration = (blocks: unknown[]) => unknown[];
+
+function mapTree(
+  blocks: unknown[],
+  fn: (block: Record<string, unknown>) => Record<string, unknown>
+): unknown[] {
+  return blocks.map((block) => {
+    if (!isRecord(block)) return block;
+    const mapped = fn(block);
+    return {
+      ...mapped,
+      children: mapTree(
+        Array.isArray(mapped.children) ? mapped.children : [],
+        fn
+      ),
+    };
+  });
+}
+
+// Keyed by the version a migration upgrades FROM.
+const MIGRATIONS: Record<number, Migration> = {
+  1: (blocks) =>
+    mapTree(blocks, (block) => {
+      const legacy =
+        typeof block.type === "string" ? /^h([1-3])$/.exec(block.type) : null;
+      if (!legacy) return block;
+      return {
+        ...block,
+        type: "heading",
+        props: {
+          ...(isRecord(block.props) ? block.props : {}),
+          level: Number(legacy[1]),
+        },
+      };
+    }),
+};
+
+// Drops malformed marks and links to anything but web, mail and phone URLs
+function repairMarks(marks: unknown[]): Mark[] {
+  return marks.flatMap((mark): Mark[] => {
+    if (!isRecord(mark) || typeof mark.type !== "string") return [];
+    const repaired = { ...mark, type: mark.type } as Mark;
+    if (repaired.type !== "link") return [repaired];
+    const attrs = isRecord(mark.attrs) ? mark.attrs : {};
+    const href =
+      typeof attrs.href === "string" ? sanitizeHref(attrs.href) : null;
+    return href ? [{ ...repaired, attrs: { ...attrs, href } }] : [];
+  });
+}
+
+// Fills in fields that older payloads may be missing so that every block
+// satisfies the current `Block` interface. Entries that are not objects are
+// dropped.
+function repairBlocks(value: unknown): Block[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).map((block) =>
+    sanitizeBlock({
+      id: typeof block.id === "string" ? block.id : crypto.randomUUID(),
+      // Unknown types become paragraphs in `sanitizeBlock`
+      type: (typeof block.type === "string"
+        ? block.type
+        : "paragraph") as BlockType,
+      content: Array.isArray(block.content)
+        ? block.content.filter(isRecord).map((node) => ({
+            id: typeof node.id === "string" ? node.id : uid(),
+            text: String(node.text ?? ""),
+            marks: Array.isArray(node.marks) ? repairMarks(node.marks) : [],
+          }))
+        : [],
+      children: repairBlocks(block.children),
+      isOpen: block.isOpen !== false,
+      props: isRecord(block.props) ? (block.props as Block["props"]) : {},
+    })
+  );
+}
+
+/**
+ * Upgrades a stored payload of any known version to the current schema.
+ * A bare array is treated as an unversioned (v1) document.
+ */
+export function migrateDocument(payload: unknown): Block[] {
+  const envelope =
+    isRecord(payload) && !Array.isArray(payload)
+      ? payload
+      : { version: 1, blocks: payload };
+
+  let version = typeof envelope.version === "number" ? envelope.version : 1;
+  let blocks: unknown[] = Array.isArray(envelope.blocks) ? envelope.blocks : [];
+
+  if (version > SCHEMA_VERSION) {
+    throw new Error(
+      `Document was saved with schema v${version}, newer than v${SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration registered from schema v${version}`);
+    }
+    blocks = migrate(blocks);
+    version++;
+  }
+
+  return normalizeEditorState(repairBlocks(blocks));
+}
+
+// --- 2. BACKENDS ---
+
+interface StorageBackend {
+  read(key: string): Promise<unknown>;
+  write(key: string, value: unknown): Promise<void>;
+}
+
+const DB_NAME = "notes-it";
+// v2 added the image store
+const DB_VERSION = 2;
+const STORE_NAME = "documents";
+const IMAGE_STORE_NAME = "images";
+const LOCAL_STORAGE_PREFIX = "notes-it:";
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of [STORE_NAME, IMAGE_STORE_NAME]) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error("IndexedDB open blocked"));
+    });
+    // Allow a later retry instead of caching the failure forever.
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+const indexedDBBackend: StorageBackend = {
+  async read(key) {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_NAME, "readonly");
+    return requestToPromise(tx.objectStore(STORE_NAME).get(key));
+  },
+  async write(key, value) {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    await requestToPromise(tx.objectStore(STORE_NAME).put(value, key));
+  },
+};
+
+const localStorageBackend: StorageBackend = {
+  async read(key) {
+    const raw = localStorage.getItem(LOCAL_STORAGE_PREFIX + key);
+    return raw === null ? undefined : JSON.parse(raw);
+  },
+  async write(key, value) {
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(value));
+  },
+};
+
+const hasIndexedDB = () => typeof indexedDB !== "undefined";
+
+async function read(key: string): Promise<unknown> {
+  if (hasIndexedDB()) {
+    try {
+      const value = await indexedDBBackend.read(key);
+      if (value !== undefined) return value;
+    } catch (err) {
+      console.warn("IndexedDB read failed, falling back to localStorage", err);
+    }
+  }
+  return localStorageBackend.read(key);
+}
+
+async function write(key: string, value: unknown): Promise<void> {
+  if (hasIndexedDB()) {
+    try {
+      await indexedDBBackend.write(key, value);
+      return;
+    } catch (err) {
+      console.warn("IndexedDB write failed, falling back to localStorage", err);
+    }
+  }
+  await localStorageBackend.write(key, value);
+}
+
+// --- 3. DOCUMENT API ---
+
+const DOCUMENT_KEY = "document";
+
+// Keeps the threads and comments that have the fields the sidebar reads;
+// like blocks, saved threads are untrusted.
+function repairThreads(value: unknown): CommentThread[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((thread): CommentThread[] => {
+    if (!isRecord(thread) || typeof thread.id !== "string") return [];
+    const comments = Array.isArray(thread.comments)
+      ? thread.comments.flatMap((comment) =>
+          isRecord(comment) && typeof comment.body === "string"
+            ? [
+                {
+                  id: typeof comment.id === "string" ? comment.id : uid(),
+                  author: String(comment.author ?? ""),
+                  body: comment.body,
+                  createdAt: Number(comment.createdAt) || 0,
+                },
+              ]
+            : []
+        )
+      : [];
+    if (comments.length === 0) return [];
+    return [{ id: thread.id, comments, resolved: thread.resolved === true }];
+  });
+}
+
+export async function loadDocument(): Promise<{
+  blocks: Block[];
+  threads: CommentThread[];
+} | null> {
+  const payload = await read(DOCUMENT_KEY);
+  if (payload === undefined || payload === null) return null;
+  return {
+    blocks: migrateDocument(payload),
+    threads: repairThreads(isRecord(payload) ? payload.threads : undefined),
+  };
+}
+
+export async function saveDocument(
+  blocks: Block[],
+  threads: CommentThread[]
+): Promise<void> {
+  const payload: StoredDocument = {
+    version: SCHEMA_VERSION,
+    savedAt: Date.now(),
+    blocks,
+    threads,
+  };
+  await write(DOCUMENT_KEY, payload);
+}
+
+// --- 4. VERSION HISTORY ---
+
+export interface DocumentVersion {
+  id: string;
+  // null for automatic snapshots, the user's label for checkpoints
+  name: string | null;
+  createdAt: number;
+  blocks: Block[];
+}
+
+interface StoredVersion extends StoredDocument {
+  id: string;
+  name: string | null;
+}
+
+const VERSIONS_KEY = "versions";
+
+// Older automatic snapshots are dropped past this; named ones are kept.
+const MAX_AUTO_VERSIONS = 50;
+
+// Saving rewrites the whole list, so saves run one after another; otherwise
+// two overlapping saves (an automatic snapshot and a checkpoint) would each
+// write the list they read, and one snapshot would be lost.
+let versionSaves: Promise<unknown> = Promise.resolve();
+
+/** Lists saved versions, newest first. Unreadable entries are skipped. */
+export async function loadVersions(): Promise<DocumentVersion[]> {
+  const payload = await read(VERSIONS_KEY);
+  if (!Array.isArray(payload)) return [];
+
+  return payload.flatMap((stored: unknown) => {
+    if (!isRecord(stored)) return [];
+    try {
+      return [
+        {
+          id: String(stored.id),
+          name: typeof stored.name === "string" ? stored.name : null,
+          createdAt: Number(stored.savedAt) || 0,
+          blocks: migrateDocument(stored),
+        },
+      ];
+    } catch (err) {
+      console.warn("Skipping unreadable version", err);
+      return [];
+    }
+  });
+}
+
+/** Stores a snapshot of `blocks` and returns the updated version list. */
+export function saveVersion(
+  blocks: Block[],
+  name: string | null
+): Promise<DocumentVersion[]> {
+  const saved = versionSaves.then(() => appendVersion(blocks, name));
+  // A failed save is reported to its caller and does not stop the next one
+  versionSaves = saved.catch(() => undefined);
+  return saved;
+}
+
+async function appendVersion(
+  blocks: Block[],
+  name: string | null
+): Promise<DocumentVersion[]> {
+  const payload = await read(VERSIONS_KEY);
+  const stored: StoredVersion[] = Array.isArray(payload) ? payload : [];
+
+  let autoCount = 0;
+  const kept = [
+    {
+      id: uid(),
+      name,
+      version: SCHEMA_VERSION,
+      savedAt: Date.now(),
+      blocks,
+    },
+    ...stored,
+  ].filter((v) => v.name !== null || ++autoCount <= MAX_AUTO_VERSIONS);
+
+  await write(VERSIONS_KEY, kept);
+  return loadVersions();
+}
+
+// --- 5. IMAGES ---
+
+// Image files live in their own store, outside the document payload; image
+// blocks only reference them by id. There is no localStorage fallback, as
+// blobs do not survive JSON.
+
+// Object URLs by image id, created once per session
+const imageURLs = new Map<string, Promise<string | null>>();
+
+/** Stores an image file and returns the id to reference it by. */
+export async function saveImage(blob: Blob): Promise<string> {
+  const id = crypto.randomUUID();
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE_NAME, "readwrite");
+  await requestToPromise(tx.objectStore(IMAGE_STORE_NAME).put(blob, id));
+  imageURLs.set(id, Promise.resolve(URL.createObjectURL(blob)));
+  return id;
+}
+
+/**
+ * Resolves to an object URL for a stored image, or null when it is not in
+ * this browser (e.g. a collaborator's upload).
+ */
+export function loadImageURL(id: string): Promise<string | null> {
+  let url = imageURLs.get(id);
+  if (!url) {
+    url = openDatabase()
+      .then((db) => {
+        const tx = db.transaction(IMAGE_STORE_NAME, "readonly");
+        return requestToPromise<Blob | undefined>(
+          tx.objectStore(IMAGE_STORE_NAME).get(id)
+        );
+      })
+      .then((blob) => (blob ? URL.createObjectURL(blob) : null));
+    // Allow a later retry instead of caching the failure forever.
+    url.catch(() => imageURLs.delete(id));
+    imageURLs.set(id, url);
+  }
+  return url;
+}
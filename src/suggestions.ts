@@ -0,0 +1,419 @@
+import type {
+  Block,
+  BlockSuggestion,
+  EditorSelection,
+  InlineNode,
+  Mark,
+  SuggestionKind,
+} from "./types";
+import {
+  flattenBlocks,
+  getMarksAt,
+  getTextLength,
+  mergeSimilarNodes,
+  splitContentAt,
+  uid,
+  updateBlockInTree,
+} from "./utils";
+
+// In suggesting mode edits are recorded as proposals instead of applied.
+// Inserted and deleted text carry an `insertion` / `deletion` mark, and
+// inserted or deleted blocks a `suggestion` prop. Either holds the id of the
+// suggestion, which accepting or rejecting resolves as a whole.
+
+// --- 1. MARKS & PROPS ---
+
+const MARK_TYPES = { insert: "insertion", delete: "deletion" } as const;
+
+export const suggestionMark = (
+  kind: SuggestionKind,
+  id: string,
+  author: string
+): Mark => ({
+  type: MARK_TYPES[kind],
+  attrs: { suggestionId: id, author },
+});
+
+const findSuggestionMark = (marks: Mark[], kind: SuggestionKind) =>
+  marks.find((m) => m.type === MARK_TYPES[kind]);
+
+export const getBlockSuggestion = (block: Block): BlockSuggestion | null =>
+  block.props.suggestion ?? null;
+
+export const withBlockSuggestion = (
+  block: Block,
+  suggestion: BlockSuggestion | null
+): Block => {
+  const props = { ...block.props };
+  if (suggestion) props.suggestion = suggestion;
+  else delete props.suggestion;
+  return { ...block, props };
+};
+
+// --- 2. RECORDING ---
+
+const getPlainText = (content: InlineNode[]) =>
+  content.map((n) => n.text).join("");
+
+const sliceContent = (content: InlineNode[], start: number, end: number) =>
+  splitContentAt(splitContentAt(content, end)[0], start)[1];
+
+// The id of a suggestion of `kind` by `author` touching `offset`, so that
+// consecutive keystrokes extend one suggestion instead of starting new ones.
+function adjacentSuggestionId(
+  content: InlineNode[],
+  offsets: number[],
+  kind: SuggestionKind,
+  author: string
+): string | null {
+  const length = getTextLength(content);
+  for (const offset of offsets) {
+    if (offset < 0 || offset >= length) continue;
+    const mark = findSuggestionMark(getMarksAt(content, offset), kind);
+    if (mark?.attrs?.author === author) return mark.attrs.suggestionId;
+  }
+  return null;
+}
+
+// Proposes deleting [start, end). Text that is itself a proposed insertion
+// is simply removed; the rest is kept with a deletion mark.
+function markDeletion(
+  content: InlineNode[],
+  start: number,
+  end: number,
+  id: string,
+  author: string
+): { content: InlineNode[]; keptLength: number } {
+  const [head, rest] = splitContentAt(content, start);
+  const [middle, tail] = splitContentAt(rest, end - start);
+  const kept = middle
+    .filter((n) => !findSuggestionMark(n.marks, "insert"))
+    .map((n) => ({
+      ...n,
+      id: uid(),
+      marks: findSuggestionMark(n.marks, "delete")
+        ? n.marks
+        : [...n.marks, suggestionMark("delete", id, author)],
+    }));
+  return {
+    content: mergeSimilarNodes([...head, ...kept, ...tail]),
+    keptLength: getTextLength(kept),
+  };
+}
+
+/**
+ * Turns the change from `before` to `after` (one keystroke, paste or typing
+ * over a selection inside a block) into a suggestion. `caret` is where the
+ * caret ended up in `after`; the returned caret accounts for deleted text
+ * that stays visible. `forward` is set for the Delete key, which leaves the
+ * caret after the text it marks.
+ */
+export function suggestTextChange(
+  before: InlineNode[],
+  after: InlineNode[],
+  caret: number,
+  author: string,
+  options: { forward?: boolean; insertionId?: string } = {}
+): { content: InlineNode[]; caret: number } {
+  const oldText = getPlainText(before);
+  const newText = getPlainText(after);
+  const shortest = Math.min(oldText.length, newText.length);
+
+  // The change ends at the caret, so the common suffix is matched first
+  let suffix = 0;
+  while (
+    suffix < shortest &&
+    suffix < newText.length - caret &&
+    oldText[oldText.length - 1 - suffix] ===
+      newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  let start = 0;
+  while (start < shortest - suffix && oldText[start] === newText[start]) {
+    start++;
+  }
+  const removedEnd = oldText.length - suffix;
+  const insertedEnd = newText.length - suffix;
+  if (start === removedEnd && start === insertedEnd) {
+    return { content: after, caret };
+  }
+
+  const deletionId =
+    adjacentSuggestionId(before, [start - 1, removedEnd], "delete", author) ??
+    uid();
+  const deleted = markDeletion(before, start, removedEnd, deletionId, author);
+  const kept = sliceContent(deleted.content, start, start + deleted.keptLength);
+
+  const insertionId =
+    adjacentSuggestionId(after, [start - 1, insertedEnd], "insert", author) ??
+    options.insertionId ??
+    uid();
+  const inserted = sliceContent(after, start, insertedEnd).map((n) => ({
+    ...n,
+    marks: [
+      ...n.marks.filter((m) => m.type !== "insertion" && m.type !== "deletion"),
+      suggestionMark("insert", insertionId, author),
+    ],
+  }));
+
+  const [head] = splitContentAt(after, start);
+  const [, tail] = splitContentAt(after, insertedEnd);
+  const insertedLength = insertedEnd - start;
+  return {
+    content: mergeSimilarNodes([...head, ...kept, ...inserted, ...tail]),
+    caret:
+      insertedLength > 0 || options.forward
+        ? start + deleted.keptLength + insertedLength
+        : start,
+  };
+}
+
+/**
+ * Proposes deleting a range that may span blocks. Blocks strictly inside the
+ * range are proposed for deletion as a whole, together with the children
+ * hidden inside collapsed ones; their other children are not part of it.
+ * The caret ends after the deleted text, where typing over the range
+ * continues.
+ */
+export function suggestRangeDeletion(
+  blocks: Block[],
+  range: EditorSelection,
+  author: string
+): { blocks: Block[]; caret: { blockId: string; offset: number } } {
+  const { start, end } = range;
+  const flat = flattenBlocks(blocks);
+  const startIndex = flat.findIndex((b) => b.id === start.blockId);
+  const endIndex = flat.findIndex((b) => b.id === end.blockId);
+  if (startIndex === -1 || endIndex === -1) {
+    return { blocks, caret: start };
+  }
+
+  const id = uid();
+  let newBlocks = blocks;
+  let caret = start;
+  for (let i = startIndex; i <= endIndex; i++) {
+    const block = flat[i];
+    if (i !== startIndex && i !== endIndex) {
+      const hidden = block.isOpen ? [] : allBlocks(block.children);
+      for (const { id: blockId } of [block, ...hidden]) {
+        newBlocks = suggestBlockDeletion(newBlocks, blockId, author, id);
+      }
+      continue;
+    }
+    const from = i === startIndex ? start.offset : 0;
+    const to = i === endIndex ? end.offset : getTextLength(block.content);
+    const deleted = markDeletion(block.content, from, to, id, author);
+    newBlocks = updateBlockInTree(newBlocks, block.id, (b) => ({
+      ...b,
+      content: deleted.content,
+    }));
+    if (i === endIndex) {
+      caret = { blockId: block.id, offset: from + deleted.keptLength };
+    }
+  }
+  return { blocks: newBlocks, caret };
+}
+
+/**
+ * Proposes deleting a block. A block that is itself a proposed insertion is
+ * withdrawn instead.
+ */
+export function suggestBlockDeletion(
+  blocks: Block[],
+  id: string,
+  author: string,
+  suggestionId: string = uid()
+): Block[] {
+  const block = findBlock(blocks, id);
+  if (!block) return blocks;
+  const current = getBlockSuggestion(block);
+  if (current?.kind === "insert") {
+    return resolveSuggestions(blocks, new Set([current.id]), false);
+  }
+  if (current?.kind === "delete") return blocks;
+  return updateBlockInTree(blocks, id, (b) =>
+    withBlockSuggestion(b, { id: suggestionId, kind: "delete", author })
+  );
+}
+
+// Marks pasted blocks as proposed insertions: text pasted inline, or whole
+// blocks (and their text) under one suggestion id.
+export function suggestInsertedBlocks(
+  blocks: Block[],
+  author: string,
+  inline: boolean
+): Block[] {
+  const id = uid();
+  const mark = suggestionMark("insert", id, author);
+  const visit = (block: Block): Block => {
+    const marked = {
+      ...block,
+      content: block.content.map((n) => ({ ...n, marks: [...n.marks, mark] })),
+      children: block.children.map(visit),
+    };
+    return inline
+      ? marked
+      : withBlockSuggestion(marked, { id, kind: "insert", author });
+  };
+  return blocks.map(visit);
+}
+
+// --- 3. LISTING ---
+
+export interface Suggestion {
+  id: string;
+  kind: SuggestionKind;
+  author: string;
+  // Block-level suggestions add or remove whole blocks
+  isBlock: boolean;
+  blockId: string;
+  text: string;
+}
+
+function findBlock(blocks: Block[], id: string): Block | null {
+  for (const block of blocks) {
+    if (block.id === id) return block;
+    const found = findBlock(block.children, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Lists pending suggestions in document order, including those inside
+ * collapsed toggles. Text marks sharing the id of a block-level suggestion
+ * are part of it.
+ */
+export function getSuggestions(blocks: Block[]): Suggestion[] {
+  const byId = new Map<string, Suggestion>();
+
+  const visit = (block: Block) => {
+    const blockSuggestion = getBlockSuggestion(block);
+    if (blockSuggestion && !byId.get(blockSuggestion.id)?.isBlock) {
+      byId.set(blockSuggestion.id, {
+        ...blockSuggestion,
+        isBlock: true,
+        blockId: block.id,
+        text: getPlainText(block.content),
+      });
+    }
+    for (const node of block.content) {
+      for (const kind of ["insert", "delete"] as const) {
+        const mark = findSuggestionMark(node.marks, kind);
+        if (!mark) continue;
+        const existing = byId.get(mark.attrs?.suggestionId);
+        if (existing?.isBlock) continue;
+        if (existing) {
+          existing.text += node.text;
+        } else {
+          byId.set(mark.attrs?.suggestionId, {
+            id: mark.attrs?.suggestionId,
+            kind,
+            author: mark.attrs?.author,
+            isBlock: false,
+            blockId: block.id,
+            text: node.text,
+          });
+        }
+      }
+    }
+    block.children.forEach(visit);
+  };
+  blocks.forEach(visit);
+  return [...byId.values()];
+}
+
+// --- 4. RESOLVING ---
+
+// Every block in document order, collapsed children included
+const allBlocks = (blocks: Block[]): Block[] =>
+  blocks.flatMap((b) => [b, ...allBlocks(b.children)]);
+
+// Replaces a block by its children, so content nested under a withdrawn or
+// deleted block is not lost with it.
+function unwrapBlock(blocks: Block[], id: string): Block[] {
+  return blocks.flatMap((b) =>
+    b.id === id ? b.children : [{ ...b, children: unwrapBlock(b.children, id) }]
+  );
+}
+
+/**
+ * Accepts or rejects the suggestions in `ids`, or all of them when `ids` is
+ * null. Rejecting an inserted block hands any text it held from before the
+ * suggestion back to the block above it.
+ */
+export function resolveSuggestions(
+  blocks: Block[],
+  ids: Set<string> | null,
+  accept: boolean
+): Block[] {
+  const matches = (mark: Mark | undefined) =>
+    mark !== undefined && (!ids || ids.has(mark.attrs?.suggestionId));
+
+  const resolveContent = (content: InlineNode[]) =>
+    mergeSimilarNodes(
+      content.flatMap((node) => {
+        const insertion = findSuggestionMark(node.marks, "insert");
+        const deletion = findSuggestionMark(node.marks, "delete");
+        const resolved = matches(insertion) ? insertion : deletion;
+        if (!matches(resolved)) return [node];
+        const removesText = (resolved === insertion) !== accept;
+        if (removesText) return [];
+        return [{ ...node, marks: node.marks.filter((m) => m !== resolved) }];
+      })
+    );
+
+  const mapTree = (tree: Block[]): Block[] =>
+    tree.map((b) => ({
+      ...b,
+      content: resolveContent(b.content),
+      children: mapTree(b.children),
+    }));
+  let newBlocks = mapTree(blocks);
+
+  // Last to first, so text handed back up can pass through several
+  // rejected blocks.
+  const resolvedBlocks = allBlocks(newBlocks)
+    .filter((b) => {
+      const suggestion = getBlockSuggestion(b);
+      return suggestion && (!ids || ids.has(suggestion.id));
+    })
+    .reverse();
+
+  for (const { id } of resolvedBlocks) {
+    const flat = allBlocks(newBlocks);
+    const index = flat.findIndex((b) => b.id === id);
+    const block = flat[index];
+    const { kind } = getBlockSuggestion(block)!;
+
+    if ((kind === "insert") === accept) {
+      newBlocks = updateBlockInTree(newBlocks, id, (b) =>
+        withBlockSuggestion(b, null)
+      );
+    } else if (kind === "delete") {
+      // Children proposed for deletion too were resolved before their parent
+      newBlocks = unwrapBlock(newBlocks, id);
+    } else {
+      const leftover = block.content.filter(
+        (n) => !findSuggestionMark(n.marks, "insert")
+      );
+      const previous = flat[index - 1];
+      if (leftover.length > 0 && !previous) {
+        newBlocks = updateBlockInTree(newBlocks, id, (b) => ({
+          ...withBlockSuggestion(b, null),
+          content: leftover,
+        }));
+        continue;
+      }
+      if (leftover.length > 0) {
+        newBlocks = updateBlockInTree(newBlocks, previous.id, (b) => ({
+          ...b,
+          content: mergeSimilarNodes([...b.content, ...leftover]),
+        }));
+      }
+      newBlocks = unwrapBlock(newBlocks, id);
+    }
+  }
+  return newBlocks;
+}
@@ -0,0 +1,583 @@
+import type { Block, InlineNode, Mark } from "./types";
+import {
+  applyOperation,
+  diffBlocks,
+  locateBlock,
+  type BlockAttrs,
+} from "./transactions";
+import { getTable } from "./table";
+import { areMarksEqual, findNodePath } from "./utils";
+
+// Collaborative editing. Every client keeps a replica of the document as a
+// CRDT: a block's type, props, position and deletion are registers where the
+// last writer wins, blocks are ordered under their parent by fractional
+// keys, and text is a sequence of characters (RGA) that each carry their own
+// marks. Table cells are text sequences of their own, keyed by row and
+// column id, so only the table's shape is a register. Replicas that have
+// seen the same operations, in any order, materialise the same `Block[]`.
+
+// --- 1. CLOCKS & KEYS ---
+
+// Lamport timestamp; the client id breaks ties between clients
+type Clock = [counter: number, clientId: string];
+
+const compareClocks = (a: Clock, b: Clock) =>
+  a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+interface Register<T> {
+  value: T;
+  clock: Clock;
+}
+
+const KEY_DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+// A key sorting strictly between `a` and `b`, where "" and null stand for
+// the start and the end of the list.
+function keyBetween(a: string, b: string | null): string {
+  let key = "";
+  for (let i = 0; ; i++) {
+    const lo = i < a.length ? KEY_DIGITS.indexOf(a[i]) : 0;
+    const hi =
+      b !== null && i < b.length ? KEY_DIGITS.indexOf(b[i]) : KEY_DIGITS.length;
+    if (hi - lo > 1) return key + KEY_DIGITS[(lo + hi) >> 1];
+    key += KEY_DIGITS[lo];
+    // Past the first digit where they differ, `b` no longer bounds the key
+    if (hi > lo) b = null;
+  }
+}
+
+// --- 2. DOCUMENT & OPERATIONS ---
+
+interface Position {
+  parentId: string | null;
+  key: string;
+}
+
+interface CharItem {
+  id: string;
+  // The character this one was typed after, null for the start of the block
+  origin: string | null;
+  clock: Clock;
+  char: string;
+  deleted: boolean;
+  marks: Register<Mark[]>;
+}
+
+interface BlockItem {
+  id: string;
+  attrs: Register<BlockAttrs>;
+  position: Register<Position>;
+  deleted: Register<boolean>;
+  // In document order, deleted characters included
+  chars: CharItem[];
+  // Table cells by `rowId:columnId`, each ordered like `chars`
+  cells: Map<string, CharItem[]>;
+}
+
+export type SyncOp =
+  | {
+      type: "create_block";
+      id: string;
+      attrs: BlockAttrs;
+      position: Position;
+      clock: Clock;
+    }
+  | { type: "set_block"; id: string; attrs: BlockAttrs; clock: Clock }
+  | { type: "move_block"; id: string; position: Position; clock: Clock }
+  | { type: "delete_block"; id: string; clock: Clock }
+  // `cell` is set when the text belongs to a table cell
+  | {
+      type: "insert_text";
+      blockId: string;
+      cell?: string;
+      id: string;
+      origin: string | null;
+      char: string;
+      marks: Mark[];
+      clock: Clock;
+    }
+  | { type: "delete_text"; blockId: string; cell?: string; id: string }
+  | {
+      type: "format_text";
+      blockId: string;
+      cell?: string;
+      id: string;
+      marks: Mark[];
+      clock: Clock;
+    };
+
+export interface SyncDocument {
+  clientId: string;
+  counter: number;
+  blocks: Map<string, BlockItem>;
+  // Every operation integrated so far, to re-seed a relay that restarted
+  log: SyncOp[];
+  // Operations whose block or character has not arrived yet
+  pending: SyncOp[];
+}
+
+export function createSyncDocument(
+  clientId: string = crypto.randomUUID()
+): SyncDocument {
+  return { clientId, counter: 0, blocks: new Map(), log: [], pending: [] };
+}
+
+const tick = (doc: SyncDocument): Clock => [++doc.counter, doc.clientId];
+
+function setRegister<T>(register: Register<T>, value: T, clock: Clock) {
+  if (compareClocks(clock, register.clock) > 0) {
+    register.value = value;
+    register.clock = clock;
+  }
+}
+
+// --- 3. INTEGRATING OPERATIONS ---
+
+// The characters a text operation edits: the block's own or one cell's
+function sequenceOf(item: BlockItem, cell: string | undefined): CharItem[] {
+  if (cell === undefined) return item.chars;
+  let chars = item.cells.get(cell);
+  if (!chars) item.cells.set(cell, (chars = []));
+  return chars;
+}
+
+// Applies one operation to the replica. Returns false when it depends on
+// something that has not arrived yet.
+function integrate(doc: SyncDocument, op: SyncOp): boolean {
+  if ("clock" in op) doc.counter = Math.max(doc.counter, op.clock[0]);
+  const item = doc.blocks.get("blockId" in op ? op.blockId : op.id);
+
+  switch (op.type) {
+    case "create_block":
+      if (item) {
+        // Re-creating a deleted block (e.g. undo) brings it back
+        setRegister(item.attrs, op.attrs, op.clock);
+        setRegister(item.position, op.position, op.clock);
+        setRegister(item.deleted, false, op.clock);
+      } else {
+        doc.blocks.set(op.id, {
+          id: op.id,
+          attrs: { value: op.attrs, clock: op.clock },
+          position: { value: op.position, clock: op.clock },
+          deleted: { value: false, clock: op.clock },
+          chars: [],
+          cells: new Map(),
+        });
+      }
+      break;
+
+    case "set_block":
+      if (!item) return false;
+      setRegister(item.attrs, op.attrs, op.clock);
+      break;
+
+    case "move_block":
+      if (!item) return false;
+      setRegister(item.position, op.position, op.clock);
+      break;
+
+    case "delete_block":
+      if (!item) return false;
+      setRegister(item.deleted, true, op.clock);
+      break;
+
+    case "insert_text": {
+      if (!item) return false;
+      const chars = sequenceOf(item, op.cell);
+      if (chars.some((c) => c.id === op.id)) return true;
+      const originIndex =
+        op.origin === null ? -1 : chars.findIndex((c) => c.id === op.origin);
+      if (op.origin !== null && originIndex === -1) return false;
+
+      // Concurrent inserts after the same character: the newer one first
+      let index = originIndex + 1;
+      while (
+        index < chars.length &&
+        compareClocks(chars[index].clock, op.clock) > 0
+      ) {
+        index++;
+      }
+      chars.splice(index, 0, {
+        id: op.id,
+        origin: op.origin,
+        clock: op.clock,
+        char: op.char,
+        deleted: false,
+        marks: { value: op.marks, clock: op.clock },
+      });
+      break;
+    }
+
+    case "delete_text":
+    case "format_text": {
+      const char =
+        item && sequenceOf(item, op.cell).find((c) => c.id === op.id);
+      if (!char) return false;
+      if (op.type === "delete_text") char.deleted = true;
+      else setRegister(char.marks, op.marks, op.clock);
+      break;
+    }
+  }
+
+  doc.log.push(op);
+  return true;
+}
+
+/** Integrates operations received from other clients, in any order. */
+export function applySyncOps(doc: SyncDocument, ops: SyncOp[]) {
+  let queue = [...doc.pending, ...ops];
+  let progress = true;
+  while (progress && queue.length > 0) {
+    progress = false;
+    const waiting: SyncOp[] = [];
+    for (const op of queue) {
+      if (integrate(doc, op)) progress = true;
+      else waiting.push(op);
+    }
+    queue = waiting;
+  }
+  doc.pending = queue;
+}
+
+// --- 4. LOCAL CHANGES ---
+
+function siblingsOf(tree: Block[], parentId: string | null): Block[] {
+  if (parentId === null) return tree;
+  return findNodePath(tree, parentId)?.node.children ?? [];
+}
+
+// The position of `id` in `tree`, keyed between its current neighbours.
+function positionIn(doc: SyncDocument, tree: Block[], id: string): Position {
+  const at = locateBlock(tree, id)!;
+  const siblings = siblingsOf(tree, at.parentId);
+  const keyOf = (block: Block | undefined) =>
+    (block && doc.blocks.get(block.id)?.position.value.key) ?? null;
+
+  const before = keyOf(siblings[at.index - 1]) ?? "";
+  const after = keyOf(siblings[at.index + 1]);
+  return {
+    parentId: at.parentId,
+    key:
+      after !== null && before >= after
+        ? keyBetween(before, null)
+        : keyBetween(before, after),
+  };
+}
+
+// Emits the character operations that turn the block's text, or one of its
+// cells, into `content`.
+function syncContent(
+  doc: SyncDocument,
+  blockId: string,
+  content: InlineNode[],
+  emit: (op: SyncOp) => void,
+  cell?: string
+) {
+  const item = doc.blocks.get(blockId);
+  if (!item) return;
+  const current = sequenceOf(item, cell).filter((c) => !c.deleted);
+  const target = content.flatMap((node) =>
+    Array.from(node.text, (char) => ({ char, marks: node.marks }))
+  );
+
+  // Only the middle part that differs is replaced
+  let start = 0;
+  while (
+    start < current.length &&
+    start < target.length &&
+    current[start].char === target[start].char
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < target.length - start &&
+    current[current.length - 1 - end].char ===
+      target[target.length - 1 - end].char
+  ) {
+    end++;
+  }
+
+  const format = (char: CharItem, marks: Mark[]) => {
+    if (areMarksEqual(char.marks.value, marks)) return;
+    emit({
+      type: "format_text",
+      blockId,
+      cell,
+      id: char.id,
+      marks,
+      clock: tick(doc),
+    });
+  };
+  for (let i = 0; i < start; i++) format(current[i], target[i].marks);
+  for (let i = 1; i <= end; i++) {
+    format(current[current.length - i], target[target.length - i].marks);
+  }
+
+  for (const char of current.slice(start, current.length - end)) {
+    emit({ type: "delete_text", blockId, cell, id: char.id });
+  }
+  let origin = start > 0 ? current[start - 1].id : null;
+  for (const { char, marks } of target.slice(start, target.length - end)) {
+    const clock = tick(doc);
+    const id = `${clock[0]}@${clock[1]}`;
+    emit({
+      type: "insert_text",
+      blockId,
+      cell,
+      id,
+      origin,
+      char,
+      marks,
+      clock,
+    });
+    origin = id;
+  }
+}
+
+const cellKey = (rowId: string, columnId: string) => `${rowId}:${columnId}`;
+
+// A table's register holds its shape; the cell text is synced by `syncCells`
+function attrsOf(block: Block): BlockAttrs {
+  if (block.type !== "table") {
+    return { type: block.type, props: block.props, isOpen: block.isOpen };
+  }
+  const { rowIds, columnIds, headerRow, columnAlign } = getTable(block);
+  const props = { ...block.props, rowIds, columnIds, headerRow, columnAlign };
+  delete props.rows;
+  return { type: block.type, props, isOpen: block.isOpen };
+}
+
+function syncCells(
+  doc: SyncDocument,
+  block: Block,
+  emit: (op: SyncOp) => void
+) {
+  if (block.type !== "table") return;
+  const { rows, rowIds, columnIds } = getTable(block);
+  rows.forEach((cells, r) =>
+    cells.forEach((content, c) =>
+      syncContent(
+        doc,
+        block.id,
+        content,
+        emit,
+        cellKey(rowIds[r], columnIds[c])
+      )
+    )
+  );
+}
+
+/**
+ * Turns a local edit (`before` → `after`) into operations, integrates them
+ * into the replica and returns them for broadcasting.
+ */
+export function recordLocalChange(
+  doc: SyncDocument,
+  before: Block[],
+  after: Block[]
+): SyncOp[] {
+  const ops: SyncOp[] = [];
+  const emit = (op: SyncOp) => {
+    integrate(doc, op);
+    ops.push(op);
+  };
+
+  const create = (tree: Block[], block: Block) => {
+    emit({
+      type: "create_block",
+      id: block.id,
+      attrs: attrsOf(block),
+      position: positionIn(doc, tree, block.id),
+      clock: tick(doc),
+    });
+    syncContent(doc, block.id, block.content, emit);
+    syncCells(doc, block, emit);
+    block.children.forEach((child) => create(tree, child));
+  };
+
+  let tree = before;
+  for (const op of diffBlocks(before, after)) {
+    tree = applyOperation(tree, op);
+    switch (op.type) {
+      case "insert_block":
+        create(tree, op.block);
+        break;
+      case "delete_block":
+        emit({ type: "delete_block", id: op.block.id, clock: tick(doc) });
+        break;
+      case "move_block":
+        emit({
+          type: "move_block",
+          id: op.blockId,
+          position: positionIn(doc, tree, op.blockId),
+          clock: tick(doc),
+        });
+        break;
+      case "set_block": {
+        const block = findNodePath(tree, op.blockId)?.node;
+        if (!block) break;
+        // Typing in a cell leaves the shape alone, so it must not overwrite
+        // a concurrent change to it
+        const attrs = attrsOf(block);
+        const current = doc.blocks.get(block.id)?.attrs.value;
+        if (JSON.stringify(attrs) !== JSON.stringify(current)) {
+          emit({ type: "set_block", id: block.id, attrs, clock: tick(doc) });
+        }
+        syncCells(doc, block, emit);
+        break;
+      }
+      case "update_content":
+      case "toggle_mark": {
+        const block = findNodePath(tree, op.blockId)?.node;
+        if (block) syncContent(doc, block.id, block.content, emit);
+        break;
+      }
+    }
+  }
+  return ops;
+}
+
+// --- 5. MATERIALISING ---
+
+// Concurrent moves can parent blocks in a loop (A into B while B moves into
+// A). In each loop the most recent move is ignored: that block stays at the
+// top level.
+function findLoopBreakers(doc: SyncDocument): Set<string> {
+  const breakers = new Set<string>();
+  const settled = new Set<string>();
+
+  for (const start of doc.blocks.values()) {
+    const path: BlockItem[] = [];
+    let current: BlockItem | undefined = start;
+    while (current && !current.deleted.value && !settled.has(current.id)) {
+      const loopStart = path.indexOf(current);
+      if (loopStart !== -1) {
+        const newest = path
+          .slice(loopStart)
+          .reduce((a, b) =>
+            compareClocks(a.position.clock, b.position.clock) >= 0 ? a : b
+          );
+        breakers.add(newest.id);
+        break;
+      }
+      path.push(current);
+      const parentId: string | null = current.position.value.parentId;
+      current = parentId === null ? undefined : doc.blocks.get(parentId);
+    }
+    path.forEach((item) => settled.add(item.id));
+  }
+  return breakers;
+}
+
+function toContent(chars: CharItem[]): InlineNode[] {
+  const content: InlineNode[] = [];
+  for (const char of chars) {
+    if (char.deleted) continue;
+    const last = content[content.length - 1];
+    if (last && areMarksEqual(last.marks, char.marks.value)) {
+      last.text += char.char;
+    } else {
+      content.push({ id: char.id, text: char.char, marks: char.marks.value });
+    }
+  }
+  return content;
+}
+
+// Tables get their cells back from the per-cell sequences
+function propsOf(item: BlockItem): Block["props"] {
+  const { type, props } = item.attrs.value;
+  if (type !== "table") return props;
+  const { rowIds = [], columnIds = [] } = props;
+  return {
+    rows: rowIds.map((rowId) =>
+      columnIds.map((columnId) =>
+        toContent(item.cells.get(cellKey(rowId, columnId)) ?? [])
+      )
+    ),
+    ...props,
+  };
+}
+
+/** Builds the block tree the replica currently describes. */
+export function materialize(doc: SyncDocument): Block[] {
+  const breakers = findLoopBreakers(doc);
+  const childrenOf = new Map<string | null, BlockItem[]>();
+  for (const item of doc.blocks.values()) {
+    if (item.deleted.value) continue;
+    const parentId = breakers.has(item.id)
+      ? null
+      : item.position.value.parentId;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), item]);
+  }
+
+  // Blocks under a deleted parent are never reached, so they stay hidden
+  const build = (parentId: string | null): Block[] =>
+    (childrenOf.get(parentId) ?? [])
+      .sort(
+        (a, b) =>
+          a.position.value.key.localeCompare(b.position.value.key) ||
+          a.id.localeCompare(b.id)
+      )
+      .map((item) => ({
+        id: item.id,
+        ...item.attrs.value,
+        props: propsOf(item),
+        content: toContent(item.chars),
+        children: build(item.id),
+      }));
+
+  return build(null);
+}
+
+const sameText = (a: InlineNode[], b: InlineNode[]) =>
+  a.length === b.length &&
+  a.every((node, i) => node.text === b[i].text) &&
+  a.every((node, i) => areMarksEqual(node.marks, b[i].marks));
+
+/**
+ * Reuses the objects of `prev` for blocks that `next` did not change, so
+ * React skips them and the inline node ids under the caret stay stable.
+ */
+export function reuseUnchanged(prev: Block[], next: Block[]): Block[] {
+  const prevById = new Map<string, Block>();
+  const index = (blocks: Block[]) =>
+    blocks.forEach((block) => {
+      prevById.set(block.id, block);
+      index(block.children);
+    });
+  index(prev);
+
+  const reuse = (block: Block): Block => {
+    const children = block.children.map(reuse);
+    const old = prevById.get(block.id);
+    if (!old) return { ...block, children };
+
+    const content = sameText(old.content, block.content)
+      ? old.content
+      : block.content;
+    // Cells are compared like text, so their node ids stay stable too
+    const props =
+      block.type === "table" && old.type === "table"
+        ? {
+            ...block.props,
+            rows: block.props.rows?.map((cells, r) =>
+              cells.map((cell, c) => {
+                const before = old.props.rows?.[r]?.[c];
+                return before && sameText(before, cell) ? before : cell;
+              })
+            ),
+          }
+        : block.props;
+    const isSame =
+      content === old.content &&
+      old.type === block.type &&
+      old.isOpen === block.isOpen &&
+      JSON.stringify(old.props) === JSON.stringify(props) &&
+      old.children.length === children.length &&
+      children.every((child, i) => child === old.children[i]);
+    return isSame ? old : { ...block, props, content, children };
+  };
+  return next.map(reuse);
+}
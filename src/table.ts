@@ -0,0 +1,222 @@
+import type { Block, InlineNode, TableAlign } from "./types";
+import { createBlock, uid } from "./utils";
+
+// A table block keeps its grid in `props`; `content` stays empty. Each cell
+// is ordinary inline content, so it can carry the same marks as text. Rows
+// and columns carry stable ids, so a cell can be told apart from its
+// position (collaborative editing syncs every cell on its own). All helpers
+// return a new table and never mutate the one passed in.
+
+export interface Table {
+  rows: InlineNode[][][];
+  headerRow: boolean;
+  columnAlign: TableAlign[];
+  rowIds: string[];
+  columnIds: string[];
+}
+
+// --- 1. READING & CREATING ---
+
+/**
+ * Reads the table stored on `block`, padding ragged rows so every row has
+ * the same number of cells. Always at least 1×1. Tables saved before rows
+ * and columns had ids get positional ones, which every replica agrees on.
+ */
+export function getTable(block: Block): Table {
+  const stored: InlineNode[][][] = Array.isArray(block.props.rows)
+    ? block.props.rows
+    : [];
+  const columns = Math.max(1, ...stored.map((row) => row.length));
+  const rows = (stored.length > 0 ? stored : [[]]).map((row) =>
+    Array.from({ length: columns }, (_, i) => row[i] ?? [])
+  );
+  const align: TableAlign[] = Array.isArray(block.props.columnAlign)
+    ? block.props.columnAlign
+    : [];
+  const rowIds: string[] = Array.isArray(block.props.rowIds)
+    ? block.props.rowIds
+    : [];
+  const columnIds: string[] = Array.isArray(block.props.columnIds)
+    ? block.props.columnIds
+    : [];
+  return {
+    rows,
+    headerRow: block.props.headerRow === true,
+    columnAlign: Array.from({ length: columns }, (_, i) => align[i] ?? "left"),
+    rowIds: rows.map((_, i) => rowIds[i] ?? `r${i}`),
+    columnIds: Array.from(
+      { length: columns },
+      (_, i) => columnIds[i] ?? `c${i}`
+    ),
+  };
+}
+
+export const tableProps = ({
+  rows,
+  headerRow,
+  columnAlign,
+  rowIds,
+  columnIds,
+}: Table) => ({ rows, headerRow, columnAlign, rowIds, columnIds });
+
+export function createTable(rowCount: number, columnCount: number): Table {
+  return {
+    rows: Array.from({ length: rowCount }, () =>
+      Array.from({ length: columnCount }, () => [])
+    ),
+    headerRow: true,
+    columnAlign: Array.from({ length: columnCount }, () => "left"),
+    rowIds: Array.from({ length: rowCount }, uid),
+    columnIds: Array.from({ length: columnCount }, uid),
+  };
+}
+
+// Imported grids (pasted HTML, Markdown) get their ids from `getTable`
+export function createTableBlock(
+  table: Pick<Table, "rows" | "headerRow" | "columnAlign">
+): Block {
+  const block = createBlock("table");
+  return { ...block, props: tableProps(getTable({ ...block, props: table })) };
+}
+
+export const columnCount = (table: Table) => table.rows[0]?.length ?? 0;
+
+// --- 2. CELLS ---
+
+export function setCell(
+  table: Table,
+  row: number,
+  column: number,
+  content: InlineNode[]
+): Table {
+  return {
+    ...table,
+    rows: table.rows.map((cells, r) =>
+      r === row
+        ? cells.map((cell, c) => (c === column ? content : cell))
+        : cells
+    ),
+  };
+}
+
+/**
+ * Writes a pasted grid over the table starting at (`row`, `column`),
+ * adding rows and columns where it runs past the edge.
+ */
+export function pasteCells(
+  table: Table,
+  row: number,
+  column: number,
+  grid: InlineNode[][][]
+): Table {
+  const width = Math.max(
+    columnCount(table),
+    column + Math.max(0, ...grid.map((cells) => cells.length))
+  );
+  let result = table;
+  while (columnCount(result) < width) {
+    result = insertColumn(result, columnCount(result));
+  }
+  while (result.rows.length < row + grid.length) {
+    result = insertRow(result, result.rows.length);
+  }
+  grid.forEach((cells, r) =>
+    cells.forEach((content, c) => {
+      result = setCell(result, row + r, column + c, content);
+    })
+  );
+  return result;
+}
+
+// --- 3. ROWS & COLUMNS ---
+
+const move = <T>(list: T[], from: number, to: number): T[] => {
+  const result = [...list];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+};
+
+export function insertRow(table: Table, index: number): Table {
+  const row = Array.from({ length: columnCount(table) }, () => []);
+  return {
+    ...table,
+    rows: [...table.rows.slice(0, index), row, ...table.rows.slice(index)],
+    rowIds: [
+      ...table.rowIds.slice(0, index),
+      uid(),
+      ...table.rowIds.slice(index),
+    ],
+  };
+}
+
+// The last row is never removed; delete the block instead.
+export function removeRow(table: Table, index: number): Table {
+  if (table.rows.length <= 1) return table;
+  return {
+    ...table,
+    rows: table.rows.filter((_, r) => r !== index),
+    rowIds: table.rowIds.filter((_, r) => r !== index),
+  };
+}
+
+export function moveRow(table: Table, from: number, to: number): Table {
+  if (to < 0 || to >= table.rows.length) return table;
+  return {
+    ...table,
+    rows: move(table.rows, from, to),
+    rowIds: move(table.rowIds, from, to),
+  };
+}
+
+export function insertColumn(table: Table, index: number): Table {
+  return {
+    ...table,
+    rows: table.rows.map((cells) => [
+      ...cells.slice(0, index),
+      [],
+      ...cells.slice(index),
+    ]),
+    columnAlign: [
+      ...table.columnAlign.slice(0, index),
+      "left",
+      ...table.columnAlign.slice(index),
+    ],
+    columnIds: [
+      ...table.columnIds.slice(0, index),
+      uid(),
+      ...table.columnIds.slice(index),
+    ],
+  };
+}
+
+export function removeColumn(table: Table, index: number): Table {
+  if (columnCount(table) <= 1) return table;
+  return {
+    ...table,
+    rows: table.rows.map((cells) => cells.filter((_, c) => c !== index)),
+    columnAlign: table.columnAlign.filter((_, c) => c !== index),
+    columnIds: table.columnIds.filter((_, c) => c !== index),
+  };
+}
+
+export function moveColumn(table: Table, from: number, to: number): Table {
+  if (to < 0 || to >= columnCount(table)) return table;
+  return {
+    ...table,
+    rows: table.rows.map((cells) => move(cells, from, to)),
+    columnAlign: move(table.columnAlign, from, to),
+    columnIds: move(table.columnIds, from, to),
+  };
+}
+
+export function setColumnAlign(
+  table: Table,
+  column: number,
+  align: TableAlign
+): Table {
+  return {
+    ...table,
+    columnAlign: table.columnAlign.map((a, c) => (c === column ? align : a)),
+  };
+}
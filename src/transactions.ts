@@ -0,0 +1,391 @@
+import type { Block, InlineNode, Mark } from "./types";
+import { replaceContentRange, sanitizeBlock, splitContentAt } from "./utils";
+
+// History is a list of transactions, each an ordered list of invertible
+// operations. Handlers that know exactly what they change build operations
+// directly; everything else hands the old and new tree to `diffBlocks`,
+// which works out the operations that turn one into the other.
+
+// --- 1. OPERATIONS ---
+
+export interface BlockPosition {
+  parentId: string | null;
+  index: number;
+}
+
+export type BlockAttrs = Pick<Block, "type" | "props" | "isOpen">;
+
+export type Operation =
+  | { type: "insert_block"; at: BlockPosition; block: Block }
+  | { type: "delete_block"; at: BlockPosition; block: Block }
+  | {
+      type: "move_block";
+      blockId: string;
+      // `to.index` is counted after the block has been removed from `from`
+      from: BlockPosition;
+      to: BlockPosition;
+    }
+  | {
+      type: "set_block";
+      blockId: string;
+      before: BlockAttrs;
+      after: BlockAttrs;
+    }
+  | {
+      type: "update_content";
+      blockId: string;
+      before: InlineNode[];
+      after: InlineNode[];
+    }
+  | {
+      type: "toggle_mark";
+      blockId: string;
+      start: number;
+      end: number;
+      mark: Mark;
+      // Only the text inside [start, end) is stored
+      before: InlineNode[];
+      after: InlineNode[];
+    };
+
+export type Transaction = Operation[];
+
+export function invertOperation(op: Operation): Operation {
+  switch (op.type) {
+    case "insert_block":
+      return { ...op, type: "delete_block" };
+    case "delete_block":
+      return { ...op, type: "insert_block" };
+    case "move_block":
+      return { ...op, from: op.to, to: op.from };
+    case "set_block":
+      return { ...op, before: op.after, after: op.before };
+    case "update_content":
+    case "toggle_mark":
+      return { ...op, before: op.after, after: op.before };
+  }
+}
+
+export function invertTransaction(transaction: Transaction): Transaction {
+  return transaction.map(invertOperation).reverse();
+}
+
+// --- 2. APPLYING ---
+
+// Unlike `updateBlockInTree`, blocks off the path to `id` keep their
+// identity, which keeps diffs and React memoisation cheap.
+function mapBlock(
+  blocks: Block[],
+  id: string,
+  update: (block: Block) => Block
+): Block[] {
+  let changed = false;
+  const mapped = blocks.map((block) => {
+    if (block.id === id) {
+      changed = true;
+      return update(block);
+    }
+    if (block.children.length === 0) return block;
+    const children = mapBlock(block.children, id, update);
+    if (children === block.children) return block;
+    changed = true;
+    return { ...block, children };
+  });
+  return changed ? mapped : blocks;
+}
+
+function updateChildren(
+  blocks: Block[],
+  parentId: string | null,
+  update: (children: Block[]) => Block[]
+): Block[] {
+  if (parentId === null) return update(blocks);
+  return mapBlock(blocks, parentId, (b) => ({
+    ...b,
+    children: update(b.children),
+  }));
+}
+
+const EMPTY: Block[] = [];
+
+function getChildren(blocks: Block[], parentId: string | null): Block[] {
+  if (parentId === null) return blocks;
+  for (const block of blocks) {
+    if (block.id === parentId) return block.children;
+    const found = getChildren(block.children, parentId);
+    if (found !== EMPTY) return found;
+  }
+  return EMPTY;
+}
+
+export function locateBlock(
+  blocks: Block[],
+  id: string,
+  parentId: string | null = null
+): BlockPosition | null {
+  for (let index = 0; index < blocks.length; index++) {
+    if (blocks[index].id === id) return { parentId, index };
+    const found = locateBlock(blocks[index].children, id, blocks[index].id);
+    if (found) return found;
+  }
+  return null;
+}
+
+const sliceContent = (content: InlineNode[], start: number, end: number) =>
+  splitContentAt(splitContentAt(content, end)[0], start)[1];
+
+// Blocks are found by id rather than by the recorded position, so that
+// history still applies after collaborators have moved things around.
+export function applyOperation(blocks: Block[], op: Operation): Block[] {
+  switch (op.type) {
+    case "insert_block":
+      if (locateBlock(blocks, op.block.id)) return blocks;
+      return updateChildren(blocks, op.at.parentId, (children) => [
+        ...children.slice(0, op.at.index),
+        op.block,
+        ...children.slice(op.at.index),
+      ]);
+
+    case "delete_block": {
+      const at = locateBlock(blocks, op.block.id);
+      if (!at) return blocks;
+      return updateChildren(blocks, at.parentId, (children) =>
+        children.filter((_, i) => i !== at.index)
+      );
+    }
+
+    case "move_block": {
+      const from = locateBlock(blocks, op.blockId);
+      if (!from) return blocks;
+      const block = getChildren(blocks, from.parentId)[from.index];
+      const removed = applyOperation(blocks, {
+        type: "delete_block",
+        at: from,
+        block,
+      });
+      return applyOperation(removed, {
+        type: "insert_block",
+        at: op.to,
+        block,
+      });
+    }
+
+    case "set_block":
+      return mapBlock(blocks, op.blockId, (b) =>
+        sanitizeBlock({ ...b, ...op.after })
+      );
+
+    case "update_content":
+      return mapBlock(blocks, op.blockId, (b) => ({ ...b, content: op.after }));
+
+    case "toggle_mark":
+      return mapBlock(blocks, op.blockId, (b) => ({
+        ...b,
+        content: replaceContentRange(b.content, op.start, op.end, op.after),
+      }));
+  }
+}
+
+export function applyTransaction(
+  blocks: Block[],
+  transaction: Transaction
+): Block[] {
+  return transaction.reduce(applyOperation, blocks);
+}
+
+// --- 3. BUILDERS ---
+
+export function setBlockOperation(
+  block: Block,
+  changes: Partial<BlockAttrs>
+): Operation {
+  return {
+    type: "set_block",
+    blockId: block.id,
+    before: { type: block.type, props: block.props, isOpen: block.isOpen },
+    after: {
+      type: changes.type ?? block.type,
+      props: changes.props ?? block.props,
+      isOpen: changes.isOpen ?? block.isOpen,
+    },
+  };
+}
+
+// `update` must only change marks, never the text itself.
+export function toggleMarkOperation(
+  block: Block,
+  start: number,
+  end: number,
+  mark: Mark,
+  update: (content: InlineNode[], start: number, end: number) => InlineNode[]
+): Operation {
+  return {
+    type: "toggle_mark",
+    blockId: block.id,
+    start,
+    end,
+    mark,
+    before: sliceContent(block.content, start, end),
+    after: sliceContent(update(block.content, start, end), start, end),
+  };
+}
+
+// Moves `id` next to `targetId` (drag and drop).
+export function moveBlockOperation(
+  blocks: Block[],
+  id: string,
+  targetId: string,
+  side: "before" | "after"
+): Operation | null {
+  const from = locateBlock(blocks, id);
+  if (!from) return null;
+  const block = getChildren(blocks, from.parentId)[from.index];
+  const removed = applyOperation(blocks, {
+    type: "delete_block",
+    at: from,
+    block,
+  });
+  const target = locateBlock(removed, targetId);
+  if (!target) return null;
+  return {
+    type: "move_block",
+    blockId: id,
+    from,
+    to: {
+      parentId: target.parentId,
+      index: target.index + (side === "after" ? 1 : 0),
+    },
+  };
+}
+
+// Folds an operation into the transaction, merging consecutive content
+// updates of the same block (e.g. keystrokes) into one.
+export function appendOperation(
+  transaction: Transaction,
+  op: Operation
+): Transaction {
+  const last = transaction[transaction.length - 1];
+  if (
+    op.type === "update_content" &&
+    last?.type === "update_content" &&
+    last.blockId === op.blockId
+  ) {
+    return [...transaction.slice(0, -1), { ...op, before: last.before }];
+  }
+  return [...transaction, op];
+}
+
+// --- 4. DIFFING ---
+
+function indexTree(blocks: Block[], map = new Map<string, Block>()) {
+  for (const block of blocks) {
+    map.set(block.id, block);
+    indexTree(block.children, map);
+  }
+  return map;
+}
+
+const sameJSON = (a: unknown, b: unknown) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+function hasAnyOf(block: Block, ids: Map<string, Block>): boolean {
+  return block.children.some(
+    (child) => ids.has(child.id) || hasAnyOf(child, ids)
+  );
+}
+
+/**
+ * Computes operations that turn `before` into `after`. Blocks are matched by
+ * id, so a block that changed parent becomes a single move rather than a
+ * delete and re-insert.
+ */
+export function diffBlocks(before: Block[], after: Block[]): Operation[] {
+  if (before === after) return [];
+
+  const beforeById = indexTree(before);
+  const afterById = indexTree(after);
+  const ops: Operation[] = [];
+  let tree = before;
+  const emit = (op: Operation) => {
+    ops.push(op);
+    tree = applyOperation(tree, op);
+  };
+
+  // 1. Changes inside blocks that exist on both sides
+  for (const [id, next] of afterById) {
+    const prev = beforeById.get(id);
+    if (!prev || prev === next) continue;
+    if (!sameJSON(prev.content, next.content)) {
+      emit({
+        type: "update_content",
+        blockId: id,
+        before: prev.content,
+        after: next.content,
+      });
+    }
+    if (
+      prev.type !== next.type ||
+      prev.isOpen !== next.isOpen ||
+      !sameJSON(prev.props, next.props)
+    ) {
+      emit(setBlockOperation(prev, next));
+    }
+  }
+
+  // 2. Put every block of `after` in place, top-down. `current` is the
+  // matching child list of the working tree, re-read only after an emit.
+  const place = (
+    parentId: string | null,
+    targets: Block[],
+    current: Block[]
+  ) => {
+    targets.forEach((target, index) => {
+      const emitted = ops.length;
+      if (current[index]?.id !== target.id) {
+        if (beforeById.has(target.id)) {
+          emit({
+            type: "move_block",
+            blockId: target.id,
+            from: locateBlock(tree, target.id)!,
+            to: { parentId, index },
+          });
+        } else if (!hasAnyOf(target, beforeById)) {
+          // Entirely new subtree: one insert covers it
+          emit({
+            type: "insert_block",
+            at: { parentId, index },
+            block: target,
+          });
+          current = getChildren(tree, parentId);
+          return;
+        } else {
+          emit({
+            type: "insert_block",
+            at: { parentId, index },
+            block: { ...target, children: [] },
+          });
+        }
+        current = getChildren(tree, parentId);
+      }
+
+      place(target.id, target.children, current[index].children);
+      if (ops.length !== emitted) current = getChildren(tree, parentId);
+    });
+  };
+  place(null, after, tree);
+
+  // 3. Whatever is left over was deleted
+  const removeDeleted = (parentId: string | null, children: Block[]) => {
+    for (let index = children.length - 1; index >= 0; index--) {
+      const child = children[index];
+      if (!afterById.has(child.id)) {
+        emit({ type: "delete_block", at: { parentId, index }, block: child });
+      } else {
+        removeDeleted(child.id, child.children);
+      }
+    }
+  };
+  removeDeleted(null, tree);
+
+  return ops;
+}
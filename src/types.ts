@@ -4,10 +4,26 @@ export type MarkType =
   | "underline"
   | "strike"
   | "code"
-  | "highlight";
+  | "highlight"
+  | "link"
+  | "comment"
+  | "insertion"
+  | "deletion";
+
+export type HighlightColor =
+  | "yellow"
+  | "orange"
+  | "red"
+  | "pink"
+  | "purple"
+  | "blue"
+  | "green";
 
 export interface Mark {
   type: MarkType;
+  // link: { href: string }, highlight: { color: HighlightColor },
+  // comment: { threadId: string },
+  // insertion / deletion: { suggestionId: string, author: string }
   attrs?: Record<string, any>;
 }
 
@@ -24,7 +40,22 @@ export type BlockType =
   | "numbered-list"
   | "quote"
   | "code"
-  | "divider";
+  | "divider"
+  | "toggle"
+  | "table"
+  | "image"
+  | "diagram"
+  | "todo";
+
+export type TableAlign = "left" | "center" | "right";
+
+export type SuggestionKind = "insert" | "delete";
+
+export interface BlockSuggestion {
+  id: string;
+  kind: SuggestionKind;
+  author: string;
+}
 
 export interface Block {
   id: string;
@@ -36,6 +67,24 @@ export interface Block {
     level?: 1 | 2 | 3;
     language?: string;
     align?: "left" | "center" | "right";
+    // Set while the block's insertion or removal is only proposed
+    suggestion?: BlockSuggestion;
+    // table: cells by row then column (see `table.ts`)
+    rows?: InlineNode[][][];
+    rowIds?: string[];
+    columnIds?: string[];
+    headerRow?: boolean;
+    columnAlign?: TableAlign[];
+    // image: a blob stored locally (see `storage.ts`) or an external URL
+    imageId?: string;
+    src?: string;
+    width?: number;
+    alt?: string;
+    caption?: string;
+    // diagram: draw.io `<mxGraphModel>` XML (see `diagram.ts`)
+    xml?: string;
+    // todo
+    checked?: boolean;
     [key: string]: any;
   };
 }
@@ -45,3 +94,18 @@ export interface EditorSelection {
   end: { blockId: string; offset: number };
   isCollapsed: boolean;
 }
+
+export interface Comment {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: number;
+}
+
+// Anchored to the text carrying a `comment` mark with the thread's id, so
+// the anchor follows the text through edits, splits and merges.
+export interface CommentThread {
+  id: string;
+  comments: Comment[];
+  resolved: boolean;
+}
@@ -4,12 +4,19 @@ import {
   type Mark,
   type MarkType,
   type BlockType,
+  type EditorSelection,
 } from "./types";
+import {
+  DEFAULT_HIGHLIGHT,
+  isHighlightColor,
+  nearestHighlightColor,
+} from "./colors";
 
 // --- 1. SCHEMA DEFINITION ---
 interface BlockRule {
   isVoid?: boolean;
   allowMarks?: boolean;
+  isCollapsible?: boolean;
 }
 
 const BLOCK_SCHEMA: Record<BlockType, BlockRule> = {
@@ -20,6 +27,11 @@ const BLOCK_SCHEMA: Record<BlockType, BlockRule> = {
   quote: { allowMarks: true },
   code: { allowMarks: false }, // Code = No Marks
   divider: { isVoid: true },
+  toggle: { allowMarks: true, isCollapsible: true },
+  table: { isVoid: true }, // Cells live in props
+  image: { isVoid: true },
+  diagram: { isVoid: true },
+  todo: { allowMarks: true },
 };
 
 // --- 2. SANITIZATION ---
@@ -27,6 +39,11 @@ export function sanitizeBlock(block: Block): Block {
   const rule = BLOCK_SCHEMA[block.type];
   if (!rule) return { ...block, type: "paragraph" };
 
+  // Only collapsible blocks have UI to re-open hidden children
+  if (!rule.isCollapsible && !block.isOpen) {
+    return sanitizeBlock({ ...block, isOpen: true });
+  }
+
   if (rule.isVoid && block.content.length > 0) {
     return { ...block, content: [] };
   }
@@ -44,7 +61,7 @@ export function sanitizeBlock(block: Block): Block {
 }
 
 // --- 3. FACTORY & NORMALIZATION ---
-const uid = () => Math.random().toString(36).slice(2, 9);
+export const uid = () => Math.random().toString(36).slice(2, 9);
 
 export function createBlock(type: BlockType = "paragraph", text = ""): Block {
   return sanitizeBlock({
@@ -57,17 +74,33 @@ export function createBlock(type: BlockType = "paragraph", text = ""): Block {
   });
 }
 
+// `props` references the image: a stored blob's id or an external `src`
+export const createImageBlock = (props: Block["props"]): Block => ({
+  ...createBlock("image"),
+  props,
+});
+
+export const createDiagramBlock = (xml: string): Block => ({
+  ...createBlock("diagram"),
+  props: { xml },
+});
+
 export function normalizeEditorState(blocks: Block[]): Block[] {
   if (blocks.length === 0) return [createBlock("paragraph")];
   return blocks.map(sanitizeBlock);
 }
 
 // --- 4. TREE UTILS ---
-export function flattenBlocks(blocks: Block[]): Block[] {
+// Blocks in document order. Children of collapsed toggles are skipped unless
+// `includeCollapsed` is set.
+export function flattenBlocks(
+  blocks: Block[],
+  includeCollapsed = false
+): Block[] {
   return blocks.reduce((acc: Block[], block) => {
     acc.push(block);
-    if (block.children.length > 0 && block.isOpen) {
-      acc.push(...flattenBlocks(block.children));
+    if (block.children.length > 0 && (block.isOpen || includeCollapsed)) {
+      acc.push(...flattenBlocks(block.children, includeCollapsed));
     }
     return acc;
   }, []);
@@ -155,40 +188,254 @@ export function insertBeforeInTree(
   return newBlocks;
 }
 
+// The chain of blocks from the root down to `id`, inclusive.
+export function getBlockPath(blocks: Block[], id: string): Block[] {
+  for (const block of blocks) {
+    if (block.id === id) return [block];
+    const rest = getBlockPath(block.children, id);
+    if (rest.length > 0) return [block, ...rest];
+  }
+  return [];
+}
+
+function findParentBlock(blocks: Block[], id: string): Block | null {
+  for (const block of blocks) {
+    if (block.children.some((child) => child.id === id)) return block;
+    const found = findParentBlock(block.children, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Tab: moves a block to the end of its previous sibling's children.
+export function indentBlock(blocks: Block[], id: string): Block[] {
+  const found = findNodePath(blocks, id);
+  if (!found || found.index === 0) return blocks;
+
+  const newParent = found.blocks[found.index - 1];
+  if (BLOCK_SCHEMA[newParent.type].isVoid) return blocks;
+
+  return updateBlockInTree(
+    deleteBlockFromTree(blocks, id),
+    newParent.id,
+    (b) => ({
+      ...b,
+      isOpen: true,
+      children: [...b.children, found.node],
+    })
+  );
+}
+
+// Shift+Tab: lifts a block out to its parent's level, right after the parent.
+// The siblings that followed it become its children so the reading order of
+// the document does not change.
+export function outdentBlock(blocks: Block[], id: string): Block[] {
+  const parent = findParentBlock(blocks, id);
+  if (!parent) return blocks;
+
+  const index = parent.children.findIndex((child) => child.id === id);
+  const node = parent.children[index];
+  const lifted = {
+    ...node,
+    isOpen: true,
+    children: [...node.children, ...parent.children.slice(index + 1)],
+  };
+
+  const newTree = updateBlockInTree(blocks, parent.id, (b) => ({
+    ...b,
+    children: b.children.slice(0, index),
+  }));
+  return insertAfterInTree(newTree, parent.id, lifted);
+}
+
+// Numbers consecutive numbered-list siblings from 1; every nesting level
+// keeps its own count. Other block types get 0.
+export function getListNumbers(siblings: Block[]): number[] {
+  let counter = 0;
+  return siblings.map((block) => {
+    counter = block.type === "numbered-list" ? counter + 1 : 0;
+    return counter;
+  });
+}
+
+export function cloneWithFreshIds(blocks: Block[]): Block[] {
+  return blocks.map((block) => ({
+    ...block,
+    id: crypto.randomUUID(),
+    content: block.content.map((node) => ({ ...node, id: uid() })),
+    children: cloneWithFreshIds(block.children),
+    props: { ...block.props },
+  }));
+}
+
+// Copies the part of the tree covered by a (possibly multi-block) selection.
+// The boundary blocks keep only their selected text; unselected ancestors are
+// dropped and their selected descendants hoisted in their place.
+export function sliceBlocks(
+  blocks: Block[],
+  selection: EditorSelection
+): Block[] {
+  const flat = flattenBlocks(blocks);
+  const startIndex = flat.findIndex((b) => b.id === selection.start.blockId);
+  const endIndex = flat.findIndex((b) => b.id === selection.end.blockId);
+  if (startIndex === -1 || endIndex === -1) return [];
+
+  const selected = new Set(
+    flat.slice(startIndex, endIndex + 1).map((b) => b.id)
+  );
+
+  function collect(list: Block[]): Block[] {
+    return list.flatMap((block) => {
+      // Collapsed children are hidden inside their parent and travel with it.
+      const children = block.isOpen ? collect(block.children) : block.children;
+      if (!selected.has(block.id)) return children;
+
+      const start =
+        block.id === selection.start.blockId ? selection.start.offset : 0;
+      const end =
+        block.id === selection.end.blockId
+          ? selection.end.offset
+          : getTextLength(block.content);
+      const [, content] = splitContentAt(
+        splitContentAt(block.content, end)[0],
+        start
+      );
+      return [{ ...block, content, children }];
+    });
+  }
+
+  return collect(blocks);
+}
+
+// Removes the selected range, merging the text after the selection end into
+// the first block. Only the selected blocks go: children that follow the
+// selection end are lifted into the place of their removed parent, and the
+// children of the last block are re-parented onto the first.
+export function deleteRangeInTree(
+  blocks: Block[],
+  selection: EditorSelection
+): { blocks: Block[]; caret: { blockId: string; offset: number } } {
+  const { start, end } = selection;
+  const flat = flattenBlocks(blocks);
+  const startIndex = flat.findIndex((b) => b.id === start.blockId);
+  const endIndex = flat.findIndex((b) => b.id === end.blockId);
+
+  if (startIndex === -1 || endIndex === -1) {
+    return { blocks, caret: { blockId: start.blockId, offset: start.offset } };
+  }
+
+  if (startIndex === endIndex) {
+    return {
+      blocks: updateBlockInTree(blocks, start.blockId, (b) => ({
+        ...b,
+        content: replaceContentRange(b.content, start.offset, end.offset, []),
+      })),
+      caret: { blockId: start.blockId, offset: start.offset },
+    };
+  }
+
+  const first = flat[startIndex];
+  const last = flat[endIndex];
+  const [head] = splitContentAt(first.content, start.offset);
+  const [, tail] = splitContentAt(last.content, end.offset);
+
+  // A void first block cannot take the tail, so the last block survives.
+  const keep = BLOCK_SCHEMA[first.type].isVoid ? last : first;
+  const removed = new Set(
+    flat
+      .slice(startIndex, endIndex + 1)
+      .map((b) => b.id)
+      .filter((id) => id !== keep.id)
+  );
+  // Inside the first block, the last block's children keep their place
+  // among its other descendants instead.
+  const adoptsLast =
+    keep === first &&
+    !flattenBlocks(first.children).some((b) => b.id === last.id);
+
+  const rebuild = (list: Block[]): Block[] =>
+    list.flatMap((block): Block[] => {
+      if (block.id === keep.id) {
+        return [
+          keep === first
+            ? {
+                ...block,
+                content: mergeSimilarNodes([...head, ...tail]),
+                children: [
+                  ...rebuild(block.children),
+                  ...(adoptsLast ? rebuild(last.children) : []),
+                ],
+              }
+            : { ...block, content: tail, children: rebuild(block.children) },
+        ];
+      }
+      if (!removed.has(block.id)) {
+        // Untouched blocks stay the same objects, so they do not re-render
+        const children = rebuild(block.children);
+        const unchanged =
+          children.length === block.children.length &&
+          children.every((child, i) => child === block.children[i]);
+        return [unchanged ? block : { ...block, children }];
+      }
+      if (block.id === last.id) {
+        return adoptsLast ? [] : rebuild(block.children);
+      }
+      // Collapsed children are hidden inside their parent and go with it
+      return block.isOpen ? rebuild(block.children) : [];
+    });
+
+  return {
+    blocks: rebuild(blocks),
+    caret: {
+      blockId: keep.id,
+      offset: keep === first ? getTextLength(head) : 0,
+    },
+  };
+}
+
+// Lists the blocks covered by a selection that accept marks, together with
+// the offsets of the selected text inside each of them.
+export function getFormattableSegments(
+  blocks: Block[],
+  selection: EditorSelection
+): { block: Block; start: number; end: number }[] {
+  const flat = flattenBlocks(blocks);
+  const startIndex = flat.findIndex((b) => b.id === selection.start.blockId);
+  const endIndex = flat.findIndex((b) => b.id === selection.end.blockId);
+  if (startIndex === -1 || endIndex === -1) return [];
+
+  return flat
+    .slice(startIndex, endIndex + 1)
+    .filter((block) => BLOCK_SCHEMA[block.type].allowMarks)
+    .map((block) => ({
+      block,
+      start: block.id === selection.start.blockId ? selection.start.offset : 0,
+      end:
+        block.id === selection.end.blockId
+          ? selection.end.offset
+          : getTextLength(block.content),
+    }))
+    .filter(({ start, end }) => start < end);
+}
+
 // --- 5. FORMATTING LOGIC ---
 
-function areMarksEqual(a: Mark[], b: Mark[]) {
+export function areMarksEqual(a: Mark[], b: Mark[]) {
   if (a.length !== b.length) return false;
   const sortedA = [...a].sort((x, y) => x.type.localeCompare(y.type));
   const sortedB = [...b].sort((x, y) => x.type.localeCompare(y.type));
   return JSON.stringify(sortedA) === JSON.stringify(sortedB);
 }
 
-export function toggleMarkInRange(
+// Splits the nodes overlapping [start, end) at the range boundaries and
+// rewrites the marks of the covered part.
+function mapMarksInRange(
   content: InlineNode[],
   start: number,
   end: number,
-  markType: MarkType
+  update: (marks: Mark[]) => Mark[]
 ): InlineNode[] {
-  if (start >= end) return content;
-
-  let allHaveMark = true;
   let currentPos = 0;
-
-  // Check if we should ADD or REMOVE
-  for (const node of content) {
-    const nodeEnd = currentPos + node.text.length;
-    if (Math.max(currentPos, start) < Math.min(nodeEnd, end)) {
-      if (!node.marks.some((m) => m.type === markType)) {
-        allHaveMark = false;
-        break;
-      }
-    }
-    currentPos = nodeEnd;
-  }
-
-  const shouldAdd = !allHaveMark;
-  currentPos = 0;
   const newContent: InlineNode[] = [];
 
   for (const node of content) {
@@ -210,15 +457,11 @@ export function toggleMarkInRange(
       }
 
       const middleText = node.text.slice(relativeStart, relativeEnd);
-      let newMarks = [...node.marks];
-      if (shouldAdd) {
-        if (!newMarks.some((m) => m.type === markType))
-          newMarks.push({ type: markType });
-      } else {
-        newMarks = newMarks.filter((m) => m.type !== markType);
-      }
-
-      newContent.push({ id: uid(), text: middleText, marks: newMarks });
+      newContent.push({
+        id: uid(),
+        text: middleText,
+        marks: update(node.marks),
+      });
 
       if (relativeEnd < node.text.length) {
         newContent.push({
@@ -234,7 +477,191 @@ export function toggleMarkInRange(
   return mergeSimilarNodes(newContent);
 }
 
-function mergeSimilarNodes(content: InlineNode[]): InlineNode[] {
+export function hasMarkInRange(
+  content: InlineNode[],
+  start: number,
+  end: number,
+  markType: MarkType
+): boolean {
+  let currentPos = 0;
+  for (const node of content) {
+    const nodeEnd = currentPos + node.text.length;
+    if (
+      Math.max(currentPos, start) < Math.min(nodeEnd, end) &&
+      node.marks.some((m) => m.type === markType)
+    ) {
+      return true;
+    }
+    currentPos = nodeEnd;
+  }
+  return false;
+}
+
+// True when every character in [start, end) carries exactly this mark.
+export function isMarkActiveInRange(
+  content: InlineNode[],
+  start: number,
+  end: number,
+  mark: Mark
+): boolean {
+  const isSameMark = (m: Mark) => areMarksEqual([m], [mark]);
+  let currentPos = 0;
+  for (const node of content) {
+    const nodeEnd = currentPos + node.text.length;
+    if (
+      Math.max(currentPos, start) < Math.min(nodeEnd, end) &&
+      !node.marks.some(isSameMark)
+    ) {
+      return false;
+    }
+    currentPos = nodeEnd;
+  }
+  return true;
+}
+
+// Marks with attributes (e.g. highlight colours) only count as "the same"
+// when the attributes match too, so toggling yellow over green re-colours.
+export function toggleMarkInRange(
+  content: InlineNode[],
+  start: number,
+  end: number,
+  markOrType: MarkType | Mark
+): InlineNode[] {
+  if (start >= end) return content;
+
+  const mark: Mark =
+    typeof markOrType === "string" ? { type: markOrType } : markOrType;
+
+  // Check if we should ADD or REMOVE
+  const shouldAdd = !isMarkActiveInRange(content, start, end, mark);
+  return mapMarksInRange(content, start, end, (marks) => {
+    if (!shouldAdd) return marks.filter((m) => m.type !== mark.type);
+    return [...marks.filter((m) => m.type !== mark.type), mark];
+  });
+}
+
+// Applies a mark with attributes, replacing any mark of the same type.
+export function setMarkInRange(
+  content: InlineNode[],
+  start: number,
+  end: number,
+  mark: Mark
+): InlineNode[] {
+  if (start >= end) return content;
+  return mapMarksInRange(content, start, end, (marks) => [
+    ...marks.filter((m) => m.type !== mark.type),
+    mark,
+  ]);
+}
+
+export function removeMarkInRange(
+  content: InlineNode[],
+  start: number,
+  end: number,
+  markType: MarkType
+): InlineNode[] {
+  if (start >= end) return content;
+  return mapMarksInRange(content, start, end, (marks) =>
+    marks.filter((m) => m.type !== markType)
+  );
+}
+
+// Finds the extent of the mark of the given type around a caret offset,
+// spanning adjacent nodes that carry an identical mark.
+export function getMarkExtent(
+  content: InlineNode[],
+  offset: number,
+  markType: MarkType
+): { mark: Mark; start: number; end: number } | null {
+  const ranges: { node: InlineNode; start: number; end: number }[] = [];
+  let currentPos = 0;
+  for (const node of content) {
+    ranges.push({
+      node,
+      start: currentPos,
+      end: currentPos + node.text.length,
+    });
+    currentPos += node.text.length;
+  }
+
+  const index = ranges.findIndex(
+    (r) =>
+      r.start <= offset &&
+      offset <= r.end &&
+      r.node.marks.some((m) => m.type === markType)
+  );
+  if (index === -1) return null;
+
+  const mark = ranges[index].node.marks.find((m) => m.type === markType)!;
+  const sameMark = (r: (typeof ranges)[number]) =>
+    r.node.marks.some((m) => areMarksEqual([m], [mark]));
+
+  let first = index;
+  while (first > 0 && sameMark(ranges[first - 1])) first--;
+  let last = index;
+  while (last < ranges.length - 1 && sameMark(ranges[last + 1])) last++;
+
+  return { mark, start: ranges[first].start, end: ranges[last].end };
+}
+
+// Marks of the character right after `offset`, which is what text typed over
+// a selection starting there inherits.
+export function getMarksAt(content: InlineNode[], offset: number): Mark[] {
+  let currentPos = 0;
+  for (const node of content) {
+    currentPos += node.text.length;
+    if (offset < currentPos) return node.marks;
+  }
+  return content[content.length - 1]?.marks ?? [];
+}
+
+// --- 5b. LINKS ---
+
+// Only web, mail and phone links survive; anything else (javascript:, data:)
+// is dropped. Bare domains are assumed to be https.
+export function sanitizeHref(href: string | null | undefined): string | null {
+  const trimmed = href?.trim();
+  if (!trimmed) return null;
+  if (/^(https?:|mailto:|tel:)/i.test(trimmed)) return trimmed;
+  if (trimmed.startsWith("#")) return trimmed;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed) || trimmed.startsWith("/")) {
+    return null;
+  }
+  return `https://${trimmed}`;
+}
+
+const TRAILING_URL_RE = /(?:https?:\/\/|www\.)[^\s<>"]+$/;
+
+// Links a URL that ends right before `offset` (where whitespace was just
+// typed). Trailing punctuation is left outside of the link.
+export function autoLinkAt(
+  content: InlineNode[],
+  offset: number
+): InlineNode[] {
+  const before = content
+    .map((n) => n.text)
+    .join("")
+    .slice(0, offset);
+  const match = before.match(TRAILING_URL_RE);
+  if (!match) return content;
+
+  const url = match[0].replace(/[.,;:!?'")\]]+$/, "");
+  const start = match.index!;
+  const end = start + url.length;
+  if (
+    url.length < 8 ||
+    hasMarkInRange(content, start, end, "link") ||
+    hasMarkInRange(content, start, end, "code")
+  ) {
+    return content;
+  }
+
+  const href = sanitizeHref(url.startsWith("www.") ? `https://${url}` : url);
+  if (!href) return content;
+  return setMarkInRange(content, start, end, { type: "link", attrs: { href } });
+}
+
+export function mergeSimilarNodes(content: InlineNode[]): InlineNode[] {
   const merged: InlineNode[] = [];
   for (const node of content) {
     if (merged.length > 0) {
@@ -249,6 +676,44 @@ function mergeSimilarNodes(content: InlineNode[]): InlineNode[] {
   return merged;
 }
 
+export function splitContentAt(
+  content: InlineNode[],
+  offset: number
+): [InlineNode[], InlineNode[]] {
+  const before: InlineNode[] = [];
+  const after: InlineNode[] = [];
+  let currentPos = 0;
+
+  for (const node of content) {
+    const nodeEnd = currentPos + node.text.length;
+    if (nodeEnd <= offset) {
+      before.push(node);
+    } else if (currentPos >= offset) {
+      after.push(node);
+    } else {
+      const cut = offset - currentPos;
+      before.push({ ...node, text: node.text.slice(0, cut) });
+      after.push({ id: uid(), text: node.text.slice(cut), marks: node.marks });
+    }
+    currentPos = nodeEnd;
+  }
+
+  return [before, after];
+}
+
+// Replaces the text between `start` and `end` with `inserted`, keeping the
+// marks of everything outside the range.
+export function replaceContentRange(
+  content: InlineNode[],
+  start: number,
+  end: number,
+  inserted: InlineNode[]
+): InlineNode[] {
+  const [head] = splitContentAt(content, start);
+  const [, tail] = splitContentAt(content, end);
+  return mergeSimilarNodes([...head, ...inserted, ...tail]);
+}
+
 // --- 6. DOM PARSING ---
 
 export function parseDOMToContent(
@@ -290,7 +755,39 @@ export function parseDOMToContent(
       if (element.tagName === "EM" || element.tagName === "I")
         newMarks.push({ type: "italic" });
       if (element.tagName === "U") newMarks.push({ type: "underline" });
+      const highlight =
+        element.tagName === "MARK"
+          ? isHighlightColor(element.dataset.color)
+            ? element.dataset.color
+            : nearestHighlightColor(element.style.backgroundColor) ||
+              DEFAULT_HIGHLIGHT
+          : nearestHighlightColor(element.style.backgroundColor);
+      if (highlight) {
+        const existing = newMarks.findIndex((m) => m.type === "highlight");
+        if (existing !== -1) newMarks.splice(existing, 1);
+        newMarks.push({ type: "highlight", attrs: { color: highlight } });
+      }
+      if (element.tagName === "A") {
+        const href = sanitizeHref(element.getAttribute("href"));
+        if (href) newMarks.push({ type: "link", attrs: { href } });
+      }
       if (element.tagName === "CODE") newMarks.push({ type: "code" });
+      if (element.dataset.threadId) {
+        newMarks.push({
+          type: "comment",
+          attrs: { threadId: element.dataset.threadId },
+        });
+      }
+      const suggestion = element.dataset.suggestion;
+      if (suggestion === "insertion" || suggestion === "deletion") {
+        newMarks.push({
+          type: suggestion,
+          attrs: {
+            suggestionId: element.dataset.suggestionId,
+            author: element.dataset.author,
+          },
+        });
+      }
 
       // --- NEW: STRIKETHROUGH ---
       if (
@@ -347,6 +844,122 @@ export function getCaretOffset(root: HTMLElement): number {
   return preCaretRange.toString().length;
 }
 
+export function getSelectionOffsets(root: HTMLElement): {
+  start: number;
+  end: number;
+} {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return { start: 0, end: 0 };
+  const range = selection.getRangeAt(0);
+  const measure = (container: Node, offset: number) => {
+    const preRange = document.createRange();
+    preRange.selectNodeContents(root);
+    preRange.setEnd(container, offset);
+    return preRange.toString().length;
+  };
+  if (!root.contains(range.startContainer)) return { start: 0, end: 0 };
+  return {
+    start: measure(range.startContainer, range.startOffset),
+    end: root.contains(range.endContainer)
+      ? measure(range.endContainer, range.endOffset)
+      : (root.textContent || "").length,
+  };
+}
+
+// Resolves the native selection to block ids and text offsets, using the
+// `data-block-id` attribute of each block's editable root.
+export function getEditorSelection(): EditorSelection | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+
+  const findRoot = (node: Node) => {
+    const el =
+      node.nodeType === Node.ELEMENT_NODE
+        ? (node as HTMLElement)
+        : node.parentElement;
+    return el?.closest<HTMLElement>("[data-block-id]") ?? null;
+  };
+  const measure = (root: HTMLElement, container: Node, offset: number) => {
+    const preRange = document.createRange();
+    preRange.selectNodeContents(root);
+    preRange.setEnd(container, offset);
+    return preRange.toString().length;
+  };
+
+  const startRoot = findRoot(range.startContainer);
+  const endRoot = findRoot(range.endContainer);
+  if (!startRoot || !endRoot) return null;
+
+  // Tables and images edit their own fields (cells, captions); the editor
+  // only sees a caret on them
+  if (startRoot === endRoot && startRoot.dataset.atomic !== undefined) {
+    const caret = { blockId: startRoot.dataset.blockId!, offset: 0 };
+    return { start: caret, end: caret, isCollapsed: true };
+  }
+
+  return {
+    start: {
+      blockId: startRoot.dataset.blockId!,
+      offset: measure(startRoot, range.startContainer, range.startOffset),
+    },
+    end: {
+      blockId: endRoot.dataset.blockId!,
+      offset: measure(endRoot, range.endContainer, range.endOffset),
+    },
+    isCollapsed: range.collapsed,
+  };
+}
+
+// Resolves a viewport point to a DOM position (used to extend a selection
+// past the block it started in while dragging).
+export function getCaretPositionFromPoint(
+  x: number,
+  y: number
+): { node: Node; offset: number } | null {
+  if (document.caretPositionFromPoint) {
+    const pos = document.caretPositionFromPoint(x, y);
+    return pos ? { node: pos.offsetNode, offset: pos.offset } : null;
+  }
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range
+    ? { node: range.startContainer, offset: range.startOffset }
+    : null;
+}
+
+// Maps a text offset inside a block's editable root to a DOM position.
+export function findDOMPosition(
+  root: HTMLElement,
+  offset: number
+): { node: Node; offset: number } {
+  let currentOffset = 0;
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let node = walker.nextNode();
+  while (node) {
+    const length = node.textContent?.length || 0;
+    if (currentOffset + length >= offset) {
+      return { node, offset: offset - currentOffset };
+    }
+    currentOffset += length;
+    node = walker.nextNode();
+  }
+  return { node: root, offset: root.childNodes.length };
+}
+
+// Inverse of `getEditorSelection`: selects a (possibly multi-block) range.
+export function setEditorSelection(selection: EditorSelection) {
+  const findRoot = (blockId: string) =>
+    document.querySelector<HTMLElement>(`[data-block-id="${blockId}"]`);
+  const startRoot = findRoot(selection.start.blockId);
+  const endRoot = findRoot(selection.end.blockId);
+  const native = window.getSelection();
+  if (!startRoot || !endRoot || !native) return;
+
+  const anchor = findDOMPosition(startRoot, selection.start.offset);
+  const focus = findDOMPosition(endRoot, selection.end.offset);
+  native.setBaseAndExtent(anchor.node, anchor.offset, focus.node, focus.offset);
+}
+
 export function setCaretOffset(root: HTMLElement, offset: number) {
   const selection = window.getSelection();
   if (!selection) return;